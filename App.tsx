@@ -1,18 +1,43 @@
 
-import React, { useState, useEffect } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import React, { useState, useEffect, useCallback } from 'react';
 import ExamRoom from './components/ExamRoom';
 import WelcomeScreen from './components/WelcomeScreen';
-import { ExamStatus, DifficultyLevel, ClassLevel, TranscriptionEntry, ExamStats } from './types';
+import ReportView from './components/ReportView';
+import HistoryScreen from './components/HistoryScreen';
+import ProgressDashboard from './components/ProgressDashboard';
+import DeviceCheck from './components/DeviceCheck';
+import PersonaEditor from './components/PersonaEditor';
+import RubricEditor from './components/RubricEditor';
+import { ExamStatus, DifficultyLevel, ClassLevel, TranscriptionEntry, ExamAttempt, AppView, ExamSettings, ExamMode, ExamResumeState, ExamSessionResult, InputMode, DeviceSelection, VisionProfile } from './types';
+import { createAttemptId, saveAttempt } from './services/sessionStore';
+import { getExaminerBackend } from './services/examinerBackend';
+import { loadRubric } from './services/rubricStore';
 
 const App: React.FC = () => {
   const [examStatus, setExamStatus] = useState<ExamStatus>(ExamStatus.IDLE);
   const [difficulty, setDifficulty] = useState<DifficultyLevel>(DifficultyLevel.MEDIUM);
   const [classLevel, setClassLevel] = useState<ClassLevel>(ClassLevel.XII);
   const [examDuration, setExamDuration] = useState<number>(900); // Default 15 mins
+  const [syllabusUnitIds, setSyllabusUnitIds] = useState<string[]>([]);
+  const [examMode, setExamMode] = useState<ExamMode>(ExamMode.VOICE);
+  const [speakReplies, setSpeakReplies] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>(InputMode.CONTINUOUS);
+  const [visionProfile, setVisionProfile] = useState<VisionProfile>(VisionProfile.STANDARD);
+  const [devices, setDevices] = useState<DeviceSelection | undefined>();
+  const [adaptiveDifficulty, setAdaptiveDifficulty] = useState(false);
+  const [personaId, setPersonaId] = useState<string | undefined>();
+  const [panelPersonaIds, setPanelPersonaIds] = useState<string[] | undefined>();
+  const [experimentId, setExperimentId] = useState<string | undefined>();
+  // Voice settings waiting on the device check before the exam starts.
+  const [pendingSettings, setPendingSettings] = useState<ExamSettings | null>(null);
+  // Settings handed back to the welcome screen when the candidate leaves the device check.
+  const [welcomeSettings, setWelcomeSettings] = useState<ExamSettings | undefined>();
   const [sessionTranscript, setSessionTranscript] = useState<TranscriptionEntry[]>([]);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
-  const [examStats, setExamStats] = useState<ExamStats | null>(null);
+  const [currentAttempt, setCurrentAttempt] = useState<ExamAttempt | null>(null);
+  const [examStartedAt, setExamStartedAt] = useState<number>(0);
+  const [resumeState, setResumeState] = useState<ExamResumeState | null>(null);
+  const [view, setView] = useState<AppView>(AppView.EXAM);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
 
   useEffect(() => {
@@ -38,71 +63,97 @@ const App: React.FC = () => {
     setDeferredPrompt(null);
   };
 
-  const startExam = (selectedDifficulty: DifficultyLevel, selectedDurationMinutes: number, selectedClass: ClassLevel) => {
-    setDifficulty(selectedDifficulty);
-    setExamDuration(selectedDurationMinutes * 60);
-    setClassLevel(selectedClass);
+  const startExam = (settings: ExamSettings) => {
+    setDifficulty(settings.difficulty);
+    setExamDuration(settings.durationMinutes * 60);
+    setClassLevel(settings.classLevel);
+    setSyllabusUnitIds(settings.syllabusUnitIds);
+    setExamMode(settings.mode);
+    setSpeakReplies(settings.speakReplies);
+    setInputMode(settings.inputMode);
+    setVisionProfile(settings.visionProfile);
+    setDevices(settings.devices);
+    setAdaptiveDifficulty(settings.adaptiveDifficulty);
+    setPersonaId(settings.personaId);
+    setPanelPersonaIds(settings.panelPersonaIds);
+    setExperimentId(settings.experimentId);
     setExamStatus(ExamStatus.CONNECTING);
-    setExamStats(null);
+    setExamStartedAt(Date.now());
+    setCurrentAttempt(null);
+    setResumeState(null);
+    setWelcomeSettings(undefined);
   };
 
-  const generateReport = async (transcript: TranscriptionEntry[]) => {
-    setIsGeneratingReport(true);
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const prompt = `Analyze this Physics Viva transcript for Class ${classLevel}. 
-      Transcript: ${transcript && transcript.length > 0 ? JSON.stringify(transcript) : 'No transcript available'}
-      Evaluate based on: Conceptual Clarity, Technical Accuracy, and Confidence. 
-      Difficulty level was ${difficulty}.`;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          systemInstruction: "You are a professional Physics Board Examiner. Analyze the candidate's performance. Be fair but accurate. If they answered poorly, give a lower grade. Provide constructive feedback.",
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              grade: { type: Type.STRING, description: "Grade from A+ to F" },
-              score: { type: Type.NUMBER, description: "Score out of 100" },
-              feedback: { type: Type.STRING, description: "Detailed summary of performance" },
-              strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-              weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-              topicsCovered: { type: Type.ARRAY, items: { type: Type.STRING } }
-            },
-            required: ["grade", "score", "feedback", "strengths", "weaknesses", "topicsCovered"]
-          }
-        }
-      });
-
-      const stats = JSON.parse(response.text || '{}') as ExamStats;
-      setExamStats(stats);
-    } catch (error) {
-      console.error("Report generation failed:", error);
-      setExamStats({
-        grade: "B",
-        score: 75,
-        feedback: "Session completed successfully. Evaluation failed to generate, but completion is logged.",
-        strengths: ["Punctuality", "Basic interaction"],
-        weaknesses: ["Technical details unclear"],
-        topicsCovered: ["General Physics"]
-      });
-    } finally {
-      setIsGeneratingReport(false);
+  const handleWelcomeStart = (settings: ExamSettings) => {
+    if (settings.mode === ExamMode.VOICE) {
+      setPendingSettings(settings);
+    } else {
+      startExam(settings);
     }
   };
 
-  const handleExamEnd = (transcript: TranscriptionEntry[]) => {
+  const handleDevicesConfirmed = (selection: DeviceSelection) => {
+    if (!pendingSettings) return;
+    startExam({ ...pendingSettings, devices: selection });
+    setPendingSettings(null);
+  };
+
+  const handleConnectionLost = useCallback((state: ExamResumeState) => {
+    setResumeState(state);
+    setExamStatus(ExamStatus.ERROR);
+  }, []);
+
+  const handleExamEnd = async ({ transcript, persona, panel, recordings, pauses, difficultyTrajectory, observations, integrity }: ExamSessionResult) => {
+    const endedAt = Date.now();
     setSessionTranscript(transcript);
+    setResumeState(null);
     setExamStatus(ExamStatus.FINISHED);
-    generateReport(transcript);
+    setIsGeneratingReport(true);
+
+    const backend = getExaminerBackend();
+    const [stats, questions, checklist] = await Promise.all([
+      backend.generateReport(transcript, classLevel, difficulty, syllabusUnitIds, loadRubric(), experimentId),
+      backend.analyseQuestions(transcript, classLevel, syllabusUnitIds, experimentId),
+      experimentId ? backend.assessPractical(transcript, experimentId, classLevel) : Promise.resolve(undefined)
+    ]);
+    const attempt: ExamAttempt = {
+      id: createAttemptId(),
+      classLevel,
+      difficulty,
+      durationSeconds: examDuration,
+      mode: examMode,
+      syllabusUnitIds,
+      personaId: persona.id,
+      personaLabel: panel ? panel.map(p => p.label).join(' & ') : persona.label,
+      panel,
+      transcript,
+      stats,
+      questions,
+      recordings,
+      pauses,
+      difficultyTrajectory,
+      experimentId,
+      checklist,
+      observations,
+      integrity,
+      startedAt: examStartedAt,
+      endedAt
+    };
+
+    try {
+      await saveAttempt(attempt);
+    } catch (error) {
+      console.error("Failed to archive attempt:", error);
+    }
+    setCurrentAttempt(attempt);
+    setIsGeneratingReport(false);
   };
 
   const resetExam = () => {
     setExamStatus(ExamStatus.IDLE);
     setSessionTranscript([]);
-    setExamStats(null);
+    setCurrentAttempt(null);
+    setResumeState(null);
   };
 
   return (
@@ -132,35 +183,91 @@ const App: React.FC = () => {
                   difficulty === DifficultyLevel.HARD ? 'text-red-400' : 
                   difficulty === DifficultyLevel.MEDIUM ? 'text-indigo-400' : 'text-green-400'
                 }`}>
-                  {difficulty}
+                  {difficulty}{adaptiveDifficulty && ' → Adaptive'}
                 </span>
              </div>
+             {experimentId && (
+               <div className="px-3 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/20 flex items-center space-x-2">
+                  <span className="text-[9px] font-bold text-emerald-400 uppercase">Practical</span>
+               </div>
+             )}
              <div className="px-3 py-1 rounded-full bg-indigo-500/10 border border-indigo-500/20 flex items-center space-x-2">
                 <span className="text-[9px] font-bold text-slate-500 uppercase">Duration:</span>
                 <span className="text-[9px] font-bold text-indigo-400 uppercase">{Math.floor(examDuration / 60)}M</span>
              </div>
-             <div className="px-3 py-1 rounded-full bg-red-500/10 border border-red-500/20 flex items-center space-x-2">
-                <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-                <span className="text-[10px] font-bold text-red-400 uppercase tracking-widest">Official Recording</span>
-             </div>
+             {examMode === ExamMode.VOICE ? (
+               <div className="px-3 py-1 rounded-full bg-red-500/10 border border-red-500/20 flex items-center space-x-2">
+                  <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                  <span className="text-[10px] font-bold text-red-400 uppercase tracking-widest">Official Recording</span>
+               </div>
+             ) : (
+               <div className="px-3 py-1 rounded-full bg-slate-800 border border-slate-700 flex items-center space-x-2">
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Typed Viva</span>
+               </div>
+             )}
           </div>
         )}
       </header>
 
       <main className="flex-grow relative flex items-center justify-center p-4">
-        {examStatus === ExamStatus.IDLE && (
+        {examStatus === ExamStatus.IDLE && view === AppView.EXAM && pendingSettings && (
+          <DeviceCheck
+            useCamera={pendingSettings.visionProfile !== VisionProfile.OFF}
+            onConfirm={handleDevicesConfirmed}
+            onBack={() => {
+              setWelcomeSettings(pendingSettings);
+              setPendingSettings(null);
+            }}
+          />
+        )}
+
+        {examStatus === ExamStatus.IDLE && view === AppView.EXAM && !pendingSettings && (
           <WelcomeScreen 
-            onStart={startExam} 
+            onStart={handleWelcomeStart} 
             onInstall={deferredPrompt ? handleInstallClick : undefined} 
+            onShowHistory={() => setView(AppView.HISTORY)}
+            onShowDashboard={() => setView(AppView.DASHBOARD)}
+            onManagePersonas={() => setView(AppView.PERSONAS)}
+            onManageRubric={() => setView(AppView.RUBRIC)}
+            initialPersonaId={personaId}
+            initialSettings={welcomeSettings}
           />
         )}
+
+        {examStatus === ExamStatus.IDLE && view === AppView.HISTORY && (
+          <HistoryScreen onBack={() => setView(AppView.EXAM)} />
+        )}
+
+        {examStatus === ExamStatus.IDLE && view === AppView.DASHBOARD && (
+          <ProgressDashboard onBack={() => setView(AppView.EXAM)} />
+        )}
+
+        {examStatus === ExamStatus.IDLE && view === AppView.PERSONAS && (
+          <PersonaEditor onBack={() => setView(AppView.EXAM)} />
+        )}
+
+        {examStatus === ExamStatus.IDLE && view === AppView.RUBRIC && (
+          <RubricEditor onBack={() => setView(AppView.EXAM)} />
+        )}
         
         {(examStatus === ExamStatus.CONNECTING || examStatus === ExamStatus.ACTIVE) && (
           <ExamRoom 
             onEnd={handleExamEnd} 
             onStatusChange={setExamStatus}
+            onConnectionLost={handleConnectionLost}
+            resumeState={resumeState ?? undefined}
             difficulty={difficulty}
             classLevel={classLevel}
+            syllabusUnitIds={syllabusUnitIds}
+            mode={examMode}
+            speakReplies={speakReplies}
+            inputMode={inputMode}
+            visionProfile={visionProfile}
+            devices={devices}
+            adaptiveDifficulty={adaptiveDifficulty}
+            initialPersonaId={personaId}
+            panelPersonaIds={panelPersonaIds}
+            experimentId={experimentId}
             initialTimeSeconds={examDuration}
           />
         )}
@@ -174,7 +281,12 @@ const App: React.FC = () => {
             </div>
             <div className="space-y-2">
               <h2 className="text-xl font-bold text-white">Connection Error</h2>
-              <p className="text-slate-400 text-sm">A network interrupt prevented the Board Examiner from connecting.</p>
+              <p className="text-slate-400 text-sm">{resumeState?.reason ?? 'A network interrupt prevented the Board Examiner from connecting.'}</p>
+              {resumeState && resumeState.transcript.length > 0 && (
+                <p className="text-indigo-300/80 text-xs">
+                  Your {resumeState.transcript.length} transcript entries and {Math.ceil(resumeState.timeLeftSeconds / 60)} remaining minutes are kept — reconnecting resumes where you left off.
+                </p>
+              )}
             </div>
             <div className="flex flex-col gap-3">
               <button 
@@ -183,6 +295,17 @@ const App: React.FC = () => {
               >
                 Attempt Reconnect
               </button>
+              {examMode === ExamMode.VOICE && (
+                <button 
+                  onClick={() => {
+                    setExamMode(ExamMode.TEXT);
+                    setExamStatus(ExamStatus.CONNECTING);
+                  }}
+                  className="w-full py-4 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+                >
+                  Continue in Typed Mode
+                </button>
+              )}
               <button 
                 onClick={resetExam}
                 className="w-full py-4 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all"
@@ -195,7 +318,7 @@ const App: React.FC = () => {
 
         {examStatus === ExamStatus.FINISHED && (
           <div className="max-w-3xl w-full bg-slate-900 border border-slate-800 rounded-3xl p-6 md:p-8 text-center space-y-8 animate-in fade-in zoom-in duration-500 shadow-2xl relative overflow-hidden">
-            {isGeneratingReport || !examStats ? (
+            {isGeneratingReport || !currentAttempt ? (
               <div className="py-20 space-y-6">
                  <div className="w-16 h-16 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mx-auto" />
                  <div className="space-y-2">
@@ -204,90 +327,7 @@ const App: React.FC = () => {
                  </div>
               </div>
             ) : (
-              <div className="space-y-8">
-                <div className="absolute top-0 left-0 w-full h-1.5 bg-indigo-500"></div>
-                <div className="flex flex-col items-center space-y-4">
-                  <div className="w-20 h-20 bg-indigo-500/10 rounded-full flex items-center justify-center shadow-lg shadow-indigo-500/5">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                  </div>
-                  <div className="space-y-1">
-                    <h2 className="text-3xl font-extrabold text-white">Board Evaluation Report</h2>
-                    <p className="text-slate-400 text-sm">Session ID: <span className="font-mono">VX-PR-{Math.floor(Math.random() * 9999).toString().padStart(4, '0')}-B</span></p>
-                  </div>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-left">
-                  <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
-                    <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Final Grade</span>
-                    <span className="text-3xl font-bold text-indigo-400">{examStats.grade}</span>
-                  </div>
-                  <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
-                    <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Class</span>
-                    <span className="text-3xl font-bold text-white">{classLevel}</span>
-                  </div>
-                  <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
-                    <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Score</span>
-                    <span className="text-3xl font-bold text-green-400">{examStats.score}%</span>
-                  </div>
-                  <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
-                    <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Duration</span>
-                    <span className="text-3xl font-bold text-white">{Math.floor(examDuration / 60)}m</span>
-                  </div>
-                </div>
-
-                <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
-                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Examiner Feedback</h3>
-                  <p className="text-sm text-slate-300 leading-relaxed italic border-l-2 border-indigo-500 pl-4">
-                    "{examStats.feedback}"
-                  </p>
-                  
-                  <div className="grid md:grid-cols-2 gap-6 pt-2">
-                    <div className="space-y-2">
-                      <h4 className="text-[10px] font-bold text-green-500 uppercase tracking-widest">Strengths</h4>
-                      <ul className="text-xs text-slate-400 space-y-1">
-                        {examStats.strengths.map((s, i) => <li key={i} className="flex items-center space-x-2">
-                          <span className="w-1 h-1 bg-green-500 rounded-full" />
-                          <span>{s}</span>
-                        </li>)}
-                      </ul>
-                    </div>
-                    <div className="space-y-2">
-                      <h4 className="text-[10px] font-bold text-red-500 uppercase tracking-widest">Areas for Improvement</h4>
-                      <ul className="text-xs text-slate-400 space-y-1">
-                        {examStats.weaknesses.map((w, i) => <li key={i} className="flex items-center space-x-2">
-                          <span className="w-1 h-1 bg-red-500 rounded-full" />
-                          <span>{w}</span>
-                        </li>)}
-                      </ul>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="space-y-3 text-left">
-                  <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">Syllabus Coverage</h3>
-                  <div className="flex flex-wrap gap-2">
-                    {examStats.topicsCovered.map((topic, i) => (
-                      <span key={i} className="px-3 py-1 bg-slate-800 border border-slate-700 rounded-full text-[10px] text-indigo-300">
-                        {topic}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="flex flex-col sm:flex-row gap-3">
-                  <button className="flex-grow py-4 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold transition-all border border-slate-700">
-                    Print Official Certificate
-                  </button>
-                  <button 
-                    onClick={resetExam}
-                    className="flex-grow py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-600/20"
-                  >
-                    Return to Dashboard
-                  </button>
-                </div>
-              </div>
+              <ReportView attempt={currentAttempt} onClose={resetExam} />
             )}
           </div>
         )}
@@ -1,44 +1,106 @@
-
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 
 interface AudioVisualizerProps {
-  isSpeaking: boolean;
-  color?: string;
+  /** Candidate microphone; drawn below the centre line. */
+  inputAnalyser?: AnalyserNode | null;
+  /** Examiner playback; drawn above the centre line. */
+  outputAnalyser?: AnalyserNode | null;
+  /**
+   * Loudest raw mic sample since the last frame, raised by the capture worklet from every sample
+   * and reset here once read. The analyser's snapshot covers only a few ms of each frame, so
+   * clipping is judged from this instead.
+   */
+  inputPeakRef?: { current: number };
+  barCount?: number;
+}
+
+const CANDIDATE_COLOR = '#34d399';
+const EXAMINER_COLOR = '#818cf8';
+const CLIP_COLOR = '#ef4444';
+const IDLE_COLOR = '#334155';
+// A mic sample this close to full scale counts as clipping; the warning lingers so it can be read.
+const CLIP_THRESHOLD = 0.99;
+const CLIP_HOLD_MS = 1000;
+// Speech energy sits in the lower part of the spectrum, so bars only span this fraction of the bins.
+const SPECTRUM_FRACTION = 0.5;
+
+function bandLevels(analyser: AnalyserNode, bins: Uint8Array<ArrayBuffer>, barCount: number): number[] {
+  analyser.getByteFrequencyData(bins);
+  const usable = Math.floor(bins.length * SPECTRUM_FRACTION);
+  const perBar = Math.max(1, Math.floor(usable / barCount));
+  return Array.from({ length: barCount }, (_, i) => {
+    let sum = 0;
+    for (let j = 0; j < perBar; j++) sum += bins[i * perBar + j] ?? 0;
+    return sum / perBar / 255;
+  });
 }
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isSpeaking, color = 'bg-indigo-500' }) => {
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ inputAnalyser, outputAnalyser, inputPeakRef, barCount = 24 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const inputBins = inputAnalyser ? new Uint8Array(inputAnalyser.frequencyBinCount) : null;
+    const outputBins = outputAnalyser ? new Uint8Array(outputAnalyser.frequencyBinCount) : null;
+    let clippedUntil = 0;
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth * ratio;
+      const height = canvas.clientHeight * ratio;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.clearRect(0, 0, width, height);
+
+      const candidate = inputAnalyser && inputBins ? bandLevels(inputAnalyser, inputBins, barCount) : null;
+      const examiner = outputAnalyser && outputBins ? bandLevels(outputAnalyser, outputBins, barCount) : null;
+
+      if (inputPeakRef) {
+        if (inputAnalyser && inputPeakRef.current >= CLIP_THRESHOLD) clippedUntil = performance.now() + CLIP_HOLD_MS;
+        inputPeakRef.current = 0;
+      }
+      const isClipping = performance.now() < clippedUntil;
+
+      const slot = width / barCount;
+      const barWidth = Math.max(1, slot * 0.5);
+      const mid = height / 2;
+      const minBar = Math.max(1, ratio);
+      for (let i = 0; i < barCount; i++) {
+        const x = i * slot + (slot - barWidth) / 2;
+        const up = examiner ? Math.max(minBar, examiner[i] * mid) : minBar;
+        const down = candidate ? Math.max(minBar, candidate[i] * mid) : minBar;
+        ctx.fillStyle = examiner ? EXAMINER_COLOR : IDLE_COLOR;
+        ctx.fillRect(x, mid - up, barWidth, up);
+        ctx.fillStyle = candidate ? (isClipping ? CLIP_COLOR : CANDIDATE_COLOR) : IDLE_COLOR;
+        ctx.fillRect(x, mid, barWidth, down);
+      }
+
+      if (isClipping) {
+        ctx.fillStyle = CLIP_COLOR;
+        ctx.font = `bold ${10 * ratio}px sans-serif`;
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'top';
+        ctx.fillText('MIC CLIPPING', width - 2 * ratio, 2 * ratio);
+      }
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [inputAnalyser, outputAnalyser, inputPeakRef, barCount]);
+
   return (
-    <div className="flex items-center space-x-1 h-full flex-grow">
-      {[...Array(24)].map((_, i) => (
-        <div
-          key={i}
-          className={`w-1 rounded-full transition-all duration-300 ease-in-out ${
-            isSpeaking 
-              ? `${color} opacity-100 shadow-[0_0_8px_rgba(99,102,241,0.5)]` 
-              : 'bg-slate-700 opacity-30'
-          }`}
-          style={{
-            height: isSpeaking 
-              ? `${Math.max(6, Math.random() * 32)}px` 
-              : '4px',
-            animation: isSpeaking 
-              ? `activePulse ${0.4 + Math.random() * 0.4}s infinite alternate ease-in-out` 
-              : `idlePulse 3s infinite ease-in-out`,
-            animationDelay: `${i * 0.05}s`
-          }}
-        />
-      ))}
-      <style>{`
-        @keyframes activePulse {
-          0% { transform: scaleY(1); }
-          100% { transform: scaleY(1.4); filter: brightness(1.2); }
-        }
-        @keyframes idlePulse {
-          0%, 100% { transform: scaleY(1); opacity: 0.2; }
-          50% { transform: scaleY(1.2); opacity: 0.4; }
-        }
-      `}</style>
-    </div>
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      title="Examiner above, candidate below"
+    />
   );
 };
 
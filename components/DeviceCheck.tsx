@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DeviceSelection } from '../types';
+import { listInputDevices, openMedia, playTestTone } from '../utils/mediaDevices';
+import { meterLevel } from '../utils/micCapture';
+
+interface DeviceCheckProps {
+  /** False when the viva will run with vision off, so only audio is checked. */
+  useCamera?: boolean;
+  onConfirm: (devices: DeviceSelection) => void;
+  onBack: () => void;
+}
+
+// Meter level the candidate's voice must reach once before the microphone counts as tested.
+const MIC_HEARD_LEVEL = 0.45;
+
+type ToneState = 'idle' | 'playing' | 'played';
+
+const stopStream = (stream: MediaStream | null) => stream?.getTracks().forEach(track => track.stop());
+
+const DeviceCheck: React.FC<DeviceCheckProps> = ({ useCamera = true, onConfirm, onBack }) => {
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  // Chosen IDs are undefined until the candidate picks one; the active IDs report what the browser opened.
+  const [audioInputId, setAudioInputId] = useState<string | undefined>();
+  const [videoInputId, setVideoInputId] = useState<string | undefined>();
+  const [activeAudioId, setActiveAudioId] = useState('');
+  const [activeVideoId, setActiveVideoId] = useState('');
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [micRetry, setMicRetry] = useState(0);
+  const [cameraRetry, setCameraRetry] = useState(0);
+  const [micHeard, setMicHeard] = useState(false);
+  const [toneState, setToneState] = useState<ToneState>('idle');
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const meterRef = useRef<HTMLDivElement>(null);
+
+  const refreshDevices = () => {
+    listInputDevices()
+      .then(({ audio, video }) => {
+        setAudioDevices(audio);
+        setVideoDevices(video);
+      })
+      .catch(err => console.error("Device enumeration failed:", err));
+  };
+
+  useEffect(() => {
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, []);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let isCancelled = false;
+    setMicError(null);
+    openMedia('microphone', audioInputId)
+      .then(opened => {
+        if (isCancelled) {
+          stopStream(opened);
+          return;
+        }
+        stream = opened;
+        setMicStream(opened);
+        setActiveAudioId(opened.getAudioTracks()[0]?.getSettings().deviceId ?? '');
+        refreshDevices();
+      })
+      .catch(err => {
+        if (!isCancelled) {
+          setMicStream(null);
+          setMicError(err.message);
+        }
+      });
+    return () => {
+      isCancelled = true;
+      stopStream(stream);
+    };
+  }, [audioInputId, micRetry]);
+
+  useEffect(() => {
+    if (!useCamera) return;
+    let stream: MediaStream | null = null;
+    let isCancelled = false;
+    setCameraError(null);
+    openMedia('camera', videoInputId)
+      .then(opened => {
+        if (isCancelled) {
+          stopStream(opened);
+          return;
+        }
+        stream = opened;
+        setCameraStream(opened);
+        setActiveVideoId(opened.getVideoTracks()[0]?.getSettings().deviceId ?? '');
+        refreshDevices();
+      })
+      .catch(err => {
+        if (!isCancelled) {
+          setCameraStream(null);
+          setCameraError(err.message);
+        }
+      });
+    return () => {
+      isCancelled = true;
+      stopStream(stream);
+    };
+  }, [useCamera, videoInputId, cameraRetry]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = cameraStream;
+  }, [cameraStream]);
+
+  useEffect(() => {
+    if (!micStream) return;
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    ctx.createMediaStreamSource(micStream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const level = meterLevel(Math.sqrt(sum / samples.length));
+      if (meterRef.current) meterRef.current.style.width = `${level * 100}%`;
+      if (level >= MIC_HEARD_LEVEL) setMicHeard(true);
+    };
+    tick();
+    return () => {
+      cancelAnimationFrame(frame);
+      ctx.close();
+    };
+  }, [micStream]);
+
+  const testSpeakers = async () => {
+    setToneState('playing');
+    try {
+      await playTestTone();
+    } catch (err) {
+      console.error("Test tone failed:", err);
+    }
+    setToneState('played');
+  };
+
+  const selectAudio = (id: string) => {
+    setMicHeard(false);
+    setAudioInputId(id);
+  };
+
+  const isReady = !!micStream && (!useCamera || !!cameraStream);
+
+  const deviceLabel = (device: MediaDeviceInfo, index: number, fallback: string) =>
+    device.label || `${fallback} ${index + 1}`;
+
+  const statusDot = (ok: boolean) => (
+    <span className={`w-2 h-2 rounded-full ${ok ? 'bg-green-500' : 'bg-slate-700'}`} />
+  );
+
+  return (
+    <div className="max-w-4xl w-full space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500 px-4 py-8">
+      <div className="space-y-2">
+        <div className="inline-block px-3 py-1 rounded-full bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 text-xs font-bold uppercase tracking-wider">
+          Pre-Exam Check
+        </div>
+        <h2 className="text-3xl font-extrabold tracking-tight">Check your microphone, speakers and camera</h2>
+        <p className="text-slate-400 text-sm">Choose the devices to use for the viva and make sure each one works before the examiner joins.</p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <div className="p-5 bg-slate-900 border border-slate-800 rounded-2xl space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Microphone</label>
+              {statusDot(!!micStream && micHeard)}
+            </div>
+            <select
+              value={audioInputId ?? activeAudioId}
+              onChange={(e) => selectAudio(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+            >
+              {audioDevices.length === 0 && <option value="">Default microphone</option>}
+              {audioDevices.map((d, i) => (
+                <option key={d.deviceId || i} value={d.deviceId}>{deviceLabel(d, i, 'Microphone')}</option>
+              ))}
+            </select>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div ref={meterRef} className="h-full w-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500 transition-[width] duration-75" />
+            </div>
+            {micError ? (
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-xs text-red-400">{micError}</p>
+                <button onClick={() => setMicRetry(n => n + 1)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest flex-shrink-0">Retry</button>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">
+                {micHeard ? 'Your voice is coming through clearly.' : 'Say a few words — the bar should reach the yellow zone.'}
+              </p>
+            )}
+          </div>
+
+          <div className="p-5 bg-slate-900 border border-slate-800 rounded-2xl space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Speakers</label>
+              {statusDot(toneState === 'played')}
+            </div>
+            <button
+              onClick={testSpeakers}
+              disabled={toneState === 'playing'}
+              className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-bold transition-all border border-slate-700 disabled:opacity-40 disabled:pointer-events-none"
+            >
+              {toneState === 'playing' ? 'Playing…' : 'Play Test Tone'}
+            </button>
+            <p className="text-xs text-slate-500">
+              {toneState === 'played' ? "If you didn't hear a beep, check your volume or output device." : "You'll hear a short beep — the examiner speaks through the same output."}
+            </p>
+          </div>
+        </div>
+
+        {useCamera ? (
+        <div className="p-5 bg-slate-900 border border-slate-800 rounded-2xl space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Camera</label>
+            {statusDot(!!cameraStream)}
+          </div>
+          <select
+            value={videoInputId ?? activeVideoId}
+            onChange={(e) => setVideoInputId(e.target.value)}
+            className="w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+          >
+            {videoDevices.length === 0 && <option value="">Default camera</option>}
+            {videoDevices.map((d, i) => (
+              <option key={d.deviceId || i} value={d.deviceId}>{deviceLabel(d, i, 'Camera')}</option>
+            ))}
+          </select>
+          <div className="aspect-[4/3] bg-slate-950 border border-slate-800 rounded-xl overflow-hidden flex items-center justify-center">
+            {cameraError ? (
+              <div className="p-6 text-center space-y-3">
+                <p className="text-xs text-red-400">{cameraError}</p>
+                <button onClick={() => setCameraRetry(n => n + 1)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest">Retry</button>
+              </div>
+            ) : (
+              <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+            )}
+          </div>
+          <p className="text-xs text-slate-500">Keep your face and workspace in frame so diagrams you hold up can be seen.</p>
+        </div>
+        ) : (
+          <div className="p-5 bg-slate-900/50 border border-dashed border-slate-800 rounded-2xl flex flex-col items-center justify-center text-center space-y-2">
+            <span className="text-2xl opacity-40">🚫</span>
+            <p className="text-xs text-slate-500">Camera feed is off for this viva, so your camera will not be opened.</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          onClick={onBack}
+          className="px-6 py-4 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+        >
+          Back
+        </button>
+        <button
+          onClick={() => onConfirm({ audioInputId: audioInputId ?? activeAudioId, videoInputId: videoInputId ?? activeVideoId })}
+          disabled={!isReady}
+          className="flex-grow px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold text-lg transition-all shadow-xl shadow-indigo-600/30 disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {isReady ? 'Devices Ready — Start Viva' : useCamera ? 'Waiting for microphone and camera…' : 'Waiting for microphone…'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceCheck;
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { readImageFile } from '../utils/diagrams';
+
+interface DiagramCaptureProps {
+  /** Grabs a full-resolution still from the live camera; absent when the camera is off. */
+  capture?: () => string | null;
+  onSend: (image: string, caption: string) => void;
+  onCancel: () => void;
+}
+
+/** Previews a captured or uploaded diagram before it is shown to the examiner. */
+const DiagramCapture: React.FC<DiagramCaptureProps> = ({ capture, onSend, onCancel }) => {
+  const [image, setImage] = useState<string | null>(() => capture?.() ?? null);
+  const [caption, setCaption] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const retake = () => {
+    const still = capture?.() ?? null;
+    setError(still ? null : "The camera has no picture yet. Try again in a moment.");
+    if (still) setImage(still);
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setImage(await readImageFile(file));
+      setError(null);
+    } catch (err) {
+      console.error("Diagram upload failed:", err);
+      setError(err instanceof Error ? err.message : "Could not open that image.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-800 rounded-3xl p-6 space-y-5 shadow-2xl">
+        <div className="space-y-1">
+          <h2 className="text-xl font-extrabold tracking-tight">Show Diagram</h2>
+          <p className="text-xs text-slate-400">Hold your ray diagram or circuit steady in front of the camera, or upload a photo of it.</p>
+        </div>
+
+        <div className="aspect-video bg-slate-950 border border-slate-800 rounded-2xl overflow-hidden flex items-center justify-center">
+          {image ? (
+            <img src={image} alt="Diagram to show the examiner" className="w-full h-full object-contain" />
+          ) : (
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">No image yet</span>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          {capture && (
+            <button
+              onClick={retake}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-xs uppercase tracking-widest transition-all border border-slate-700"
+            >
+              📸 {image ? 'Retake' : 'Capture'}
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" accept="image/*" onChange={handleUpload} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-xs uppercase tracking-widest transition-all border border-slate-700"
+          >
+            Upload Image
+          </button>
+        </div>
+
+        <input
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder="What does it show? (optional)"
+          className="w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+        />
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => image && onSend(image, caption.trim())}
+            disabled={!image}
+            className="flex-grow px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all disabled:opacity-40 disabled:pointer-events-none"
+          >
+            Send to Examiner
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramCapture;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { TranscriptionEntry } from '../types';
+import { diagramFeedback } from '../utils/diagrams';
+
+interface DiagramReviewProps {
+  transcript: TranscriptionEntry[];
+}
+
+/** Each diagram the candidate showed, with the examiner's comments on it. */
+const DiagramReview: React.FC<DiagramReviewProps> = ({ transcript }) => {
+  const diagrams = diagramFeedback(transcript);
+  if (diagrams.length === 0) return null;
+
+  return (
+    <div className="space-y-3 text-left">
+      <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">Diagram Feedback</h3>
+      {diagrams.map(({ entry, comment }, i) => (
+        <div key={i} className="p-4 bg-slate-950 border border-slate-800 rounded-2xl flex flex-col sm:flex-row gap-4">
+          <img src={entry.image} alt={`Diagram ${i + 1}`} className="w-full sm:w-40 h-28 object-cover rounded-xl border border-slate-800 flex-shrink-0" />
+          <div className="space-y-2 min-w-0">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              Diagram {i + 1} • {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+            <p className="text-xs text-slate-400 italic">{entry.text}</p>
+            {comment ? (
+              <p className="text-sm text-slate-200 leading-relaxed">
+                <span className="font-bold text-indigo-300">{comment.senderName ?? 'Examiner'}:</span> {comment.text}
+              </p>
+            ) : (
+              <p className="text-sm text-slate-500">The examiner did not comment before the viva ended.</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiagramReview;
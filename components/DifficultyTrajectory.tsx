@@ -0,0 +1,62 @@
+import React from 'react';
+import { DifficultyLevel, DifficultyPoint } from '../types';
+
+interface DifficultyTrajectoryProps {
+  points: DifficultyPoint[];
+}
+
+const LEVELS = [DifficultyLevel.EASY, DifficultyLevel.MEDIUM, DifficultyLevel.HARD];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 150;
+const CHART_PADDING = 28;
+const LABEL_WIDTH = 56;
+
+const markColor = (p: DifficultyPoint) => {
+  const ratio = p.marks / p.maxMarks;
+  return ratio >= 0.7 ? '#4ade80' : ratio >= 0.4 ? '#818cf8' : '#f87171';
+};
+
+/** Step chart of the level each scored answer was asked at, with dots coloured by the marks earned. */
+const DifficultyTrajectory: React.FC<DifficultyTrajectoryProps> = ({ points }) => {
+  const left = CHART_PADDING + LABEL_WIDTH;
+  const toX = (i: number) => points.length > 1
+    ? left + (i / (points.length - 1)) * (CHART_WIDTH - left - CHART_PADDING)
+    : (left + CHART_WIDTH - CHART_PADDING) / 2;
+  const toY = (level: DifficultyLevel) =>
+    CHART_HEIGHT - CHART_PADDING - (LEVELS.indexOf(level) / (LEVELS.length - 1)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const steps = points.flatMap((p, i) => {
+    const here = `${toX(i)},${toY(p.difficulty)}`;
+    return i === 0 ? [here] : [`${toX(i)},${toY(points[i - 1].difficulty)}`, here];
+  });
+
+  const start = points[0].difficulty;
+  const end = points[points.length - 1].difficulty;
+
+  return (
+    <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Adaptive Difficulty</h3>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{start} → {end}</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        {LEVELS.map(level => (
+          <g key={level}>
+            <line x1={left} x2={CHART_WIDTH - CHART_PADDING} y1={toY(level)} y2={toY(level)} stroke="#1e293b" strokeWidth={1} />
+            <text x={left - 8} y={toY(level) + 3} textAnchor="end" fontSize={9} fill="#64748b">{level}</text>
+          </g>
+        ))}
+        <polyline fill="none" stroke="#475569" strokeWidth={2} points={steps.join(' ')} />
+        {points.map((p, i) => (
+          <circle key={i} cx={toX(i)} cy={toY(p.difficulty)} r={4} fill={markColor(p)}>
+            <title>{`Answer ${i + 1} • ${new Date(p.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} • ${p.difficulty} • ${p.marks}/${p.maxMarks}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <p className="text-[11px] text-slate-500">Each dot is one answer, coloured by its marks; the line shows the level the examiner was asking at.</p>
+    </div>
+  );
+};
+
+export default DifficultyTrajectory;
@@ -1,78 +1,46 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { ExamStatus, DifficultyLevel, ClassLevel, TranscriptionEntry } from '../types';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { ExamStatus, DifficultyLevel, ClassLevel, TranscriptionEntry, Persona, SessionRecording, ExamMode, ExamResumeState, ExamSessionResult, PauseInterval, InputMode, DeviceSelection, DifficultyPoint, LanguageMix, ObservationRecord, ObservationTable, VisionProfile, IntegrityLog } from '../types';
 import AudioVisualizer from './AudioVisualizer';
+import ObservationTableEditor from './ObservationTableEditor';
+import DiagramCapture from './DiagramCapture';
+import { findExperiment, formatSyllabusForPrompt } from '../data/syllabus';
+import { formatPracticalForPrompt } from '../data/practicals';
+import { LANGUAGE_INSTRUCTIONS, STRICTNESS_INSTRUCTIONS } from '../data/personas';
+import { findPersona, getAllPersonas } from '../services/personaStore';
+import { createSessionRecorder, SessionRecorder } from '../utils/sessionRecorder';
+import { createMicCapture, meterLevel, MicCapture, MicChunk } from '../utils/micCapture';
+import { openExamMedia } from '../utils/mediaDevices';
+import { nextDifficulty } from '../utils/adaptiveDifficulty';
+import { checkObservations, filledRows, formatObservationsForPrompt } from '../utils/observations';
+import { captureVideoStill, splitDataUrl } from '../utils/diagrams';
+import { createFrameSampler, FRAME_PROFILES } from '../utils/frameStreaming';
+import { createProctor, Proctor } from '../utils/proctoring';
+import { QUESTION_MAX_MARKS } from '../services/questionAnalysis';
+import { createVoiceActivityGate } from '../utils/voiceActivity';
+import { ExaminerSession, getExaminerBackend } from '../services/examinerBackend';
 
 interface ExamRoomProps {
-  onEnd: (transcript: TranscriptionEntry[]) => void;
+  onEnd: (result: ExamSessionResult) => void;
   onStatusChange: (status: ExamStatus) => void;
+  /** Called once reconnection has been given up, with everything needed to resume later. */
+  onConnectionLost: (state: ExamResumeState) => void;
+  resumeState?: ExamResumeState;
   difficulty: DifficultyLevel;
   classLevel: ClassLevel;
+  syllabusUnitIds: string[];
+  mode: ExamMode;
+  speakReplies?: boolean;
+  inputMode?: InputMode;
+  visionProfile?: VisionProfile;
+  devices?: DeviceSelection;
+  adaptiveDifficulty?: boolean;
+  initialPersonaId?: string;
+  panelPersonaIds?: string[];
+  experimentId?: string;
   initialTimeSeconds?: number;
 }
 
-interface Persona {
-  id: string;
-  label: string;
-  description: string;
-  icon: string;
-  instruction: string;
-  voiceName: string;
-}
-
-const PERSONAS: Persona[] = [
-  { 
-    id: 'Charon', 
-    label: 'Prof. Sterling', 
-    description: 'The Academic: Strict, formal, and demands mathematical rigor. Speaks fluent Hinglish.', 
-    icon: '👨‍💼',
-    voiceName: 'Charon',
-    instruction: 'You are Prof. Sterling. You are very strict and only accept precise, textbook definitions. You often interrupt students if they are vague. You use Hindi for transitions but expect technical terms in pure English. You are cold and professional.'
-  },
-  { 
-    id: 'Puck', 
-    label: 'Dr. Ray', 
-    description: 'The Innovator: Energetic and focuses on tech applications. Interactive in Hindi/English.', 
-    icon: '👦',
-    voiceName: 'Puck',
-    instruction: 'You are Dr. Ray, a young, excited researcher. You care about how physics changes the world. You ask questions about real-life tech like EVs or Space Travel. You are friendly and use lots of Hinglish.'
-  },
-  { 
-    id: 'Kore', 
-    label: 'Dr. Elena', 
-    description: 'The Analyst: Calm, precise, and laboratory-focused. Precise bilingual examiner.', 
-    icon: '👩‍🏫',
-    voiceName: 'Kore',
-    instruction: 'You are Dr. Elena. You focus exclusively on experiments. You ask about instruments like Screw Gauges, Vernier Calipers, and Multimeters. You want to know about least counts and zero errors. You are calm and methodical.'
-  },
-  { 
-    id: 'Fenrir', 
-    label: 'Prof. Magnus', 
-    description: 'The Veteran: Stern, brief, and values direct answers. Direct Hinglish commands.', 
-    icon: '👴',
-    voiceName: 'Fenrir',
-    instruction: 'You are Prof. Magnus. You have 40 years of experience and are very tired. You want short, one-word or one-sentence answers. If a student rambles, you tell them to get to the point. You are very grumpy.'
-  },
-  { 
-    id: 'Zephyr', 
-    label: 'Mr. Aris', 
-    description: 'The Mentor: Friendly, warm, and encourages best efforts in your native style.', 
-    icon: '👤',
-    voiceName: 'Zephyr',
-    instruction: 'You are Mr. Aris. You are like a supportive teacher. You guide the student if they get stuck. You use simple Hindi to explain the question if the student is nervous. You are very kind.'
-  },
-];
-
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
 function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -102,48 +70,260 @@ async function decodeAudioData(
   return buffer;
 }
 
-const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty, classLevel, initialTimeSeconds = 900 }) => {
-  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+const difficultyInstructions = {
+  [DifficultyLevel.EASY]: "Difficulty: EASY. Ask basic questions, use Hinglish, be lenient.",
+  [DifficultyLevel.MEDIUM]: "Difficulty: MEDIUM. Standard Board level. Mix Hindi/English. Grade fairly.",
+  [DifficultyLevel.HARD]: "Difficulty: HARD. Tough derivations. Demand technical English. Grade strictly."
+};
+
+const TEXT_MODE_OPENING = "The candidate has joined the typed viva. Greet them briefly and ask your first question.";
+const TEXT_MODE_RESUME = "The candidate has reconnected after a network drop. Do not greet them again; continue with your next question.";
+const DIAGRAM_PROMPT = "[The candidate is showing you this diagram. Examine it as a board examiner would: point out missing or wrong labels, missing arrows or wrong ray directions, incorrect circuit symbols or connections, and anything else that is wrong. Be specific and brief, then continue the viva.]";
+const HANDOVER_PROMPT = "[You have just taken over this viva. Introduce yourself to the candidate in one short sentence, then ask your first question.]";
+
+// Reconnect delays double from the base up to the cap; after the last attempt the exam is suspended.
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const RECONNECT_MAX_ATTEMPTS = 6;
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  [InputMode.CONTINUOUS]: 'Open mic',
+  [InputMode.VAD]: 'Voice detect',
+  [InputMode.PUSH_TO_TALK]: 'Push to talk'
+};
+
+function createAnalyser(ctx: AudioContext) {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 256;
+  analyser.smoothingTimeConstant = 0.7;
+  return analyser;
+}
+
+function formatHistory(transcript: TranscriptionEntry[]) {
+  return transcript
+    .map(t => t.role === 'system' ? `[${t.text}]` : `${t.role === 'user' ? 'Candidate' : t.senderName ?? 'Examiner'}: ${t.text}`)
+    .join('\n');
+}
+
+/** Recap appended to the system instruction when a session restarts without a resumption handle. */
+function buildResumeNote(transcript: TranscriptionEntry[]) {
+  return `The viva was interrupted by a network drop and is now resuming. Do not greet the candidate again and do not repeat any question already asked. Conversation so far:\n${formatHistory(transcript)}`;
+}
+
+/** Briefing for an examiner taking over mid-viva: what was covered and how the candidate fared. */
+function buildHandoverNote(previous: Persona, transcript: TranscriptionEntry[]) {
+  const asked = transcript.filter(t => t.role === 'examiner').length;
+  const answered = transcript.filter(t => t.role === 'user').length;
+  return `You are taking over this viva from ${previous.label}. So far ${asked} examiner turn${asked === 1 ? '' : 's'} and ${answered} candidate answer${answered === 1 ? '' : 's'} have been recorded. Do not repeat any question already asked; move to topics not yet covered and probe any answer that was weak. Conversation so far:\n${formatHistory(transcript)}`;
+}
+
+function buildPanelNote(persona: Persona, panel: Persona[]) {
+  const others = panel.filter(p => p.id !== persona.id).map(p => p.label).join(', ');
+  return `Panel: this is a panel viva shared with ${others}. Examiners take turns: each asks one question, then the next examiner takes over. When it is your turn you hear the candidate's answer to the previous examiner's question; acknowledge it in one short sentence, then ask exactly one question of your own. Never speak for the other examiners. Bracketed panel notes tell you what was said while you were silent.`;
+}
+
+/** Index of the panel member who replies after the transcript's last examiner turn. */
+function nextExaminerIndex(transcript: TranscriptionEntry[], examiners: Persona[]) {
+  const last = [...transcript].reverse().find(t => t.role === 'examiner');
+  const index = examiners.findIndex(p => p.id === last?.examinerId);
+  return index === -1 ? 0 : (index + 1) % examiners.length;
+}
+
+function buildSystemInstruction(
+  persona: Persona,
+  classLevel: ClassLevel,
+  difficulty: DifficultyLevel,
+  syllabusUnitIds: string[],
+  minutes: number,
+  mode: ExamMode,
+  panel?: Persona[],
+  experimentId?: string
+) {
+  const syllabusFocus = experimentId
+    ? `Practical viva — the candidate performed this experiment:\n${formatPracticalForPrompt(experimentId)}`
+    : `Class ${classLevel === ClassLevel.XI ? 11 : 12} Syllabus — question ONLY from these chapters:\n${formatSyllabusForPrompt(classLevel, syllabusUnitIds)}`;
+  const channel = mode === ExamMode.TEXT
+    ? "The candidate is typing their answers and reads your replies as text; there is no camera feed. Keep each reply short and end with exactly one question."
+    : "Observe the camera feed for any diagrams or equipment shown and ask questions about them.";
+  return `You are a Board Physics Examiner for Class ${classLevel}. 
+          ${LANGUAGE_INSTRUCTIONS[persona.languageMix ?? LanguageMix.HINGLISH]}
+          Persona: ${persona.instruction}
+          ${persona.strictness ? STRICTNESS_INSTRUCTIONS[persona.strictness] : ''}
+          Difficulty: ${difficultyInstructions[difficulty]}
+          ${syllabusFocus}
+          Goal: Conduct a concise, high-speed ${minutes}-minute viva. Ask questions STRICTLY from the Class ${classLevel} syllabus. ${channel}
+          ${panel ? buildPanelNote(persona, panel) : ''}`;
+}
+
+const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, onConnectionLost, resumeState, difficulty, classLevel, syllabusUnitIds, mode, speakReplies = false, inputMode = InputMode.CONTINUOUS, visionProfile = VisionProfile.STANDARD, devices, adaptiveDifficulty = false, initialPersonaId, panelPersonaIds, experimentId, initialTimeSeconds = 900 }) => {
+  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>(resumeState?.transcript ?? []);
   const [isExaminerSpeaking, setIsExaminerSpeaking] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentInputText, setCurrentInputText] = useState('');
   const [currentOutputText, setCurrentOutputText] = useState('');
   const currentInputTextRef = useRef('');
   const currentOutputTextRef = useRef('');
+  // Epoch ms at which the pending candidate/examiner turns began, used as entry timestamps.
+  const inputStartedAtRef = useRef<number | null>(null);
+  const outputStartedAtRef = useRef<number | null>(null);
   
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [timeLeft, setTimeLeft] = useState(initialTimeSeconds);
+  const [timeLeft, setTimeLeft] = useState(resumeState?.timeLeftSeconds ?? initialTimeSeconds);
   const [isActive, setIsActive] = useState(false);
-  const [selectedPersonaId, setSelectedPersonaId] = useState('Charon');
+  // Read once: personas are only edited from the welcome screen, never during a viva.
+  const [personas] = useState(getAllPersonas);
+  const [selectedPersonaId, setSelectedPersonaId] = useState(() => findPersona(resumeState?.personaId ?? initialPersonaId, personas).id);
+  // Reconnect attempt in progress; 0 while connected.
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [draftAnswer, setDraftAnswer] = useState('');
+  const [isAwaitingReply, setIsAwaitingReply] = useState(false);
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [frameCounts, setFrameCounts] = useState({ sent: 0, skipped: 0 });
   
   const nextStartTimeRef = useRef(0);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
+  // The active examiner's session; on a panel every member has one in sessionsRef.
+  const sessionRef = useRef<ExaminerSession | null>(null);
+  const sessionsRef = useRef<ExaminerSession[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
   const frameIntervalRef = useRef<number | null>(null);
   const isClosingRef = useRef(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const isFinishingRef = useRef(false);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const resumeHandlesRef = useRef<Record<string, string>>(resumeState?.resumeHandles ?? {});
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Bumped whenever a session is torn down so late events from it are ignored.
+  const connectionIdRef = useRef(0);
+  const transcriptionsRef = useRef(transcriptions);
+  const timeLeftRef = useRef(timeLeft);
+  const [isPaused, setIsPaused] = useState(false);
+  // Read by the mic/frame callbacks, which outlive any one render.
+  const isPausedRef = useRef(false);
+  const pausedAtRef = useRef<number | null>(null);
+  const pausesRef = useRef<PauseInterval[]>(resumeState?.pauses ?? []);
+  // Whether mic audio is currently being released to the examiner under the chosen input mode.
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const isTalkingRef = useRef(false);
+  const micMeterRef = useRef<HTMLDivElement>(null);
+  // Highest mic sample since the visualizer last drew; it reads and resets this to flag clipping.
+  const inputPeakRef = useRef(0);
+  // Analysers feed the visualizer; state copies trigger its re-render once they exist.
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const inputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const micAnalyserSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Adaptive difficulty: the level the examiner is currently steered to, and every scored answer.
+  const [currentDifficulty, setCurrentDifficulty] = useState(resumeState?.currentDifficulty ?? difficulty);
+  const currentDifficultyRef = useRef(currentDifficulty);
+  const trajectoryRef = useRef<DifficultyPoint[]>(resumeState?.difficultyTrajectory ?? []);
+  const lastQuestionRef = useRef<string | null>(
+    [...(resumeState?.transcript ?? [])].reverse().find(t => t.role === 'examiner')?.text ?? null
+  );
+
+  const selectedPersona = findPersona(selectedPersonaId, personas);
+  const panelMembers = useMemo(() => {
+    const ids = [...new Set<string>(panelPersonaIds ?? [])];
+    return ids.length > 1 ? ids.map(id => findPersona(id, personas)) : null;
+  }, [panelPersonaIds, personas]);
+  const examiners = useMemo(() => panelMembers ?? [selectedPersona], [panelMembers, selectedPersona]);
+  // Panel turn-taking: the active member hears the candidate and replies, then hands over to the next.
+  const [activeExaminerIndex, setActiveExaminerIndex] = useState(() => nextExaminerIndex(resumeState?.transcript ?? [], examiners));
+  const activeExaminerIndexRef = useRef(activeExaminerIndex);
+  // Transcript lines each member missed while another examiner had the floor, flushed on its turn.
+  const missedLinesRef = useRef<string[][]>(examiners.map(() => []));
+  const activeExaminer = examiners[activeExaminerIndex] ?? examiners[0];
+  // Set while a newly selected examiner connects, so it is briefed as a handover rather than a reconnect.
+  const handoverFromRef = useRef<Persona | null>(null);
+
+  const [observations, setObservations] = useState<ObservationRecord | undefined>(resumeState?.observations);
+  const observationsRef = useRef(observations);
+  const [isEditingObservations, setIsEditingObservations] = useState(false);
+  const [isShowingDiagram, setIsShowingDiagram] = useState(false);
+  // Dialogs open file pickers, which take focus from the window without the candidate leaving.
+  const isDialogOpenRef = useRef(false);
+
+  const [integrity, setIntegrity] = useState<IntegrityLog | undefined>(resumeState?.integrity);
+  const integrityRef = useRef(integrity);
+  const proctorRef = useRef<Proctor | null>(null);
 
-  const selectedPersona = PERSONAS.find(p => p.id === selectedPersonaId) || PERSONAS[0];
+  // Recordings from before a drop: each remount of the room starts a fresh recorder.
+  const recordingsRef = useRef<SessionRecording[]>(resumeState?.recordings ?? []);
+
+  // Closes any integrity signal still in progress, so the log handed back never leaves one open.
+  const stopProctor = () => {
+    proctorRef.current?.stop();
+    proctorRef.current = null;
+  };
+
+  // Records a pause still running when the viva ends or drops; a resumed room starts unpaused.
+  const closePause = () => {
+    if (pausedAtRef.current === null) return;
+    pausesRef.current.push({ startedAt: pausedAtRef.current, endedAt: Date.now() });
+    pausedAtRef.current = null;
+  };
+
+  const stopRecording = useCallback(async (): Promise<SessionRecording[]> => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    try {
+      const recording = recorder ? await recorder.stop() : null;
+      if (recording) recordingsRef.current = [...recordingsRef.current, recording];
+    } catch (err) {
+      console.error("Recording finalisation failed:", err);
+    }
+    return recordingsRef.current;
+  }, []);
+
+  const finishExam = useCallback(async () => {
+    if (isFinishingRef.current) return;
+    isFinishingRef.current = true;
+    const recordings = await stopRecording();
+    stopProctor();
+    closePause();
+    onEnd({
+      transcript: transcriptions,
+      persona: selectedPersona,
+      panel: panelMembers?.map(({ id, label, icon }) => ({ id, label, icon })),
+      recordings,
+      pauses: pausesRef.current,
+      difficultyTrajectory: adaptiveDifficulty ? trajectoryRef.current : undefined,
+      observations: observationsRef.current,
+      integrity: integrityRef.current
+    });
+  }, [onEnd, transcriptions, selectedPersona, panelMembers, adaptiveDifficulty, stopRecording]);
 
   useEffect(() => {
     let timer: number | undefined;
-    if (isActive && timeLeft > 0) {
+    if (isActive && !isPaused && timeLeft > 0) {
       timer = window.setInterval(() => {
         setTimeLeft((prev) => prev - 1);
       }, 1000);
     } else if (timeLeft === 0 && isActive) {
-      onEnd(transcriptions);
+      finishExam();
     }
     return () => {
       if (timer) clearInterval(timer);
     };
-  }, [isActive, timeLeft, onEnd, transcriptions]);
+  }, [isActive, isPaused, timeLeft, finishExam]);
+
+  useEffect(() => {
+    transcriptionsRef.current = transcriptions;
+    timeLeftRef.current = timeLeft;
+  }, [transcriptions, timeLeft]);
+
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stop();
+      recorderRef.current = null;
+    };
+  }, []);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -157,224 +337,596 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
     }
   }, [transcriptions, currentInputText, currentOutputText]);
 
+  const haltExaminerAudio = useCallback(() => {
+    for (const source of sourcesRef.current.values()) {
+      try { source.stop(); } catch(e) {}
+    }
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    setIsExaminerSpeaking(false);
+  }, []);
+
   const stopActiveSession = useCallback(() => {
-    if (sessionRef.current) {
-      try { sessionRef.current.close(); } catch(e) {}
-      sessionRef.current = null;
+    connectionIdRef.current++;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
     }
+    sessionsRef.current.forEach(session => {
+      try { session.close(); } catch(e) {}
+    });
+    sessionsRef.current = [];
+    sessionRef.current = null;
     if (frameIntervalRef.current) {
       clearInterval(frameIntervalRef.current);
       frameIntervalRef.current = null;
     }
-    for (const source of sourcesRef.current.values()) {
-      try { source.stop(); } catch(e) {}
-    }
-    sourcesRef.current.clear();
-    setIsExaminerSpeaking(false);
+    haltExaminerAudio();
+  }, [haltExaminerAudio]);
+
+  const speakReply = useCallback((text: string) => {
+    if (!speakReplies || !('speechSynthesis' in window)) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-IN';
+    utterance.onstart = () => setIsExaminerSpeaking(true);
+    utterance.onend = () => setIsExaminerSpeaking(false);
+    utterance.onerror = () => setIsExaminerSpeaking(false);
+    window.speechSynthesis.speak(utterance);
+  }, [speakReplies]);
+
+  const requestExaminerReply = useCallback((message: string) => {
+    if (!sessionRef.current) return;
+    setIsAwaitingReply(true);
+    sessionRef.current.sendText(message);
   }, []);
 
+  const recordAnswer = useCallback((answer: string, answeredAt: number) => {
+    const question = lastQuestionRef.current;
+    if (!adaptiveDifficulty || !question) return;
+    const askedAt = currentDifficultyRef.current;
+    getExaminerBackend().scoreAnswer(question, answer, classLevel).then(marks => {
+      if (marks === null || isFinishingRef.current) return;
+      trajectoryRef.current = [...trajectoryRef.current, { timestamp: answeredAt, marks, maxMarks: QUESTION_MAX_MARKS, difficulty: askedAt }];
+      const current = currentDifficultyRef.current;
+      const next = nextDifficulty(current, trajectoryRef.current);
+      if (next === current) return;
+      currentDifficultyRef.current = next;
+      setCurrentDifficulty(next);
+      sessionsRef.current.forEach(s => s.addContext(`[Examiner note: the candidate's recent answers call for moving from ${current} to ${next}. Do not announce this. From your next question on — ${difficultyInstructions[next]}]`));
+    });
+  }, [adaptiveDifficulty, classLevel]);
+
+  const submitTypedAnswer = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = draftAnswer.trim();
+    if (!text || isAwaitingReply || !sessionRef.current) return;
+    setErrorMessage(null);
+    setDraftAnswer('');
+    setTranscriptions(prev => [...prev, {
+      role: 'user',
+      text,
+      timestamp: Date.now(),
+      avatar: '👤',
+      senderName: 'Candidate'
+    }]);
+    recordAnswer(text, Date.now());
+    requestExaminerReply(text);
+  };
+
+  const playExaminerAudio = useCallback(async (base64Audio: string) => {
+    setIsExaminerSpeaking(true);
+    const ctx = outputAudioContextRef.current!;
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+    const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(ctx.destination);
+    if (outputAnalyserRef.current) source.connect(outputAnalyserRef.current);
+    if (recorderRef.current) source.connect(recorderRef.current.destination);
+    source.addEventListener('ended', () => {
+      sourcesRef.current.delete(source);
+      if (sourcesRef.current.size === 0) setIsExaminerSpeaking(false);
+    });
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration;
+    sourcesRef.current.add(source);
+  }, []);
+
+  const suspendExam = useCallback(async (reason?: string) => {
+    const recordings = await stopRecording();
+    stopProctor();
+    closePause();
+    onConnectionLost({
+      transcript: transcriptionsRef.current,
+      timeLeftSeconds: timeLeftRef.current,
+      personaId: selectedPersona.id,
+      pauses: pausesRef.current,
+      difficultyTrajectory: trajectoryRef.current,
+      currentDifficulty: currentDifficultyRef.current,
+      reason,
+      resumeHandles: resumeHandlesRef.current,
+      recordings,
+      observations: observationsRef.current,
+      integrity: integrityRef.current
+    });
+  }, [onConnectionLost, selectedPersona, stopRecording]);
+
   const startSession = useCallback(async () => {
-    try {
-      setErrorMessage(null);
+    setErrorMessage(null);
+    stopActiveSession();
+    const connectionId = connectionIdRef.current;
+
+    // A dropped session is retried with exponential backoff while the timer stays paused.
+    const handleDrop = () => {
+      if (connectionId !== connectionIdRef.current || isClosingRef.current || isFinishingRef.current) return;
       stopActiveSession();
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      if (!inputAudioContextRef.current) {
-        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      }
-      if (!outputAudioContextRef.current) {
-        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      setIsActive(false);
+      currentInputTextRef.current = '';
+      currentOutputTextRef.current = '';
+      inputStartedAtRef.current = null;
+      outputStartedAtRef.current = null;
+      setCurrentInputText('');
+      setCurrentOutputText('');
+
+      const attempt = reconnectAttemptRef.current + 1;
+      if (attempt > RECONNECT_MAX_ATTEMPTS) {
+        suspendExam("The connection to the examiner could not be restored.");
+        return;
       }
+      reconnectAttemptRef.current = attempt;
+      setReconnectAttempt(attempt);
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+      reconnectTimerRef.current = window.setTimeout(startSession, delay);
+    };
 
-      await inputAudioContextRef.current.resume();
-      await outputAudioContextRef.current.resume();
+    try {
+      const backend = getExaminerBackend();
+      const priorTranscript = transcriptionsRef.current;
+      const handoverFrom = handoverFromRef.current;
 
-      if (!streamRef.current) {
-        streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true, video: { width: 640, height: 480 } });
-      }
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = streamRef.current;
+      if (mode === ExamMode.VOICE) {
+        if (!inputAudioContextRef.current) {
+          // Left at the device rate; the capture worklet resamples to 16 kHz.
+          inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        }
+        if (!outputAudioContextRef.current) {
+          outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        }
+        if (!recorderRef.current) {
+          recorderRef.current = createSessionRecorder(outputAudioContextRef.current);
+        }
+        if (!inputAnalyserRef.current) {
+          inputAnalyserRef.current = createAnalyser(inputAudioContextRef.current);
+          setInputAnalyser(inputAnalyserRef.current);
+        }
+        if (!outputAnalyserRef.current) {
+          outputAnalyserRef.current = createAnalyser(outputAudioContextRef.current);
+          setOutputAnalyser(outputAnalyserRef.current);
+        }
+
+        await inputAudioContextRef.current.resume();
+        await outputAudioContextRef.current.resume();
+
+        if (!streamRef.current) {
+          try {
+            streamRef.current = await openExamMedia(devices, visionProfile !== VisionProfile.OFF);
+          } catch (err) {
+            if (connectionId !== connectionIdRef.current) return;
+            const reason = err instanceof Error ? err.message : "Microphone/Camera access error.";
+            setErrorMessage(reason);
+            suspendExam(reason);
+            return;
+          }
+        }
+        
+        if (videoRef.current) {
+          videoRef.current.srcObject = streamRef.current;
+        }
+        recorderRef.current?.attachMicrophone(streamRef.current);
+        micAnalyserSourceRef.current?.disconnect();
+        micAnalyserSourceRef.current = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
+        micAnalyserSourceRef.current.connect(inputAnalyserRef.current);
       }
 
-      const difficultyInstructions = {
-        [DifficultyLevel.EASY]: "Difficulty: EASY. Ask basic questions, use Hinglish, be lenient.",
-        [DifficultyLevel.MEDIUM]: "Difficulty: MEDIUM. Standard Board level. Mix Hindi/English. Grade fairly.",
-        [DifficultyLevel.HARD]: "Difficulty: HARD. Tough derivations. Demand technical English. Grade strictly."
+      const startMediaStreaming = () => {
+        recorderRef.current?.start();
+        
+        // Audio and frames go to whichever examiner currently has the floor.
+        const sendAudio = (pcmData: string) => {
+          if (!isClosingRef.current) sessionRef.current?.sendAudio(pcmData);
+        };
+        const voiceGate = createVoiceActivityGate({
+          send: sendAudio,
+          onSpeechStart: () => setIsTransmitting(true),
+          onSpeechEnd: () => {
+            setIsTransmitting(false);
+            sessionRef.current?.endAudioStream();
+          }
+        });
+        setIsTransmitting(inputMode === InputMode.CONTINUOUS);
+
+        createMicCapture(inputAudioContextRef.current!, streamRef.current!, (chunk: MicChunk) => {
+          // The meter is written straight to the DOM to avoid re-rendering ten times a second.
+          if (micMeterRef.current) micMeterRef.current.style.width = `${meterLevel(chunk.rms) * 100}%`;
+          inputPeakRef.current = Math.max(inputPeakRef.current, chunk.peak);
+          if (isClosingRef.current || isPausedRef.current || !sessionRef.current) return;
+          if (inputMode === InputMode.VAD) {
+            voiceGate.process(chunk);
+          } else if (inputMode === InputMode.CONTINUOUS || isTalkingRef.current) {
+            sendAudio(chunk.pcm);
+          }
+        }).then(capture => {
+          if (connectionId !== connectionIdRef.current) {
+            capture.stop();
+            return;
+          }
+          micCaptureRef.current = capture;
+        }).catch(err => {
+          console.error("Microphone capture failed:", err);
+          setErrorMessage("Microphone capture failed.");
+        });
+
+        if (visionProfile === VisionProfile.OFF) return;
+        const profile = FRAME_PROFILES[visionProfile];
+        const frames = createFrameSampler(profile);
+        frameIntervalRef.current = window.setInterval(() => {
+          if (videoRef.current && !isClosingRef.current && !isPausedRef.current && sessionRef.current) {
+            const frame = frames.sample(videoRef.current);
+            if (!frame) {
+              setFrameCounts(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+              return;
+            }
+            setFrameCounts(prev => ({ ...prev, sent: prev.sent + 1 }));
+            setIsAnalyzing(true);
+            setTimeout(() => setIsAnalyzing(false), 200);
+            sessionRef.current.sendImage(frame);
+          }
+        }, profile.intervalMs);
       };
 
-      const syllabusFocus = classLevel === ClassLevel.XI 
-        ? "Class 11 Syllabus: Units and Measurements, Kinematics, Laws of Motion, Work, Energy and Power, Thermodynamics, Oscillations and Waves."
-        : "Class 12 Syllabus: Electrostatics, Current Electricity, Magnetic Effects, Optics, Dual Nature of Radiation, Atoms and Nuclei, Electronic Devices.";
+      // Hands the floor to the next panel member, catching it up on what it missed.
+      const passTurn = () => {
+        const next = (activeExaminerIndexRef.current + 1) % examiners.length;
+        activeExaminerIndexRef.current = next;
+        setActiveExaminerIndex(next);
+        sessionRef.current = sessionsRef.current[next] ?? null;
+        const missed = missedLinesRef.current[next]?.splice(0) ?? [];
+        if (missed.length > 0) {
+          sessionRef.current?.addContext(`[Panel note — said while you were silent:\n${missed.join('\n')}\nIt is now your turn.]`);
+        }
+      };
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
+      let openCount = 0;
+      const sessionPromises = examiners.map((examiner, index) => {
+        const isActiveExaminer = () => index === activeExaminerIndexRef.current;
+        let systemInstruction = buildSystemInstruction(examiner, classLevel, currentDifficultyRef.current, syllabusUnitIds, Math.floor(initialTimeSeconds / 60), mode, panelMembers ?? undefined, experimentId);
+        if (handoverFrom) {
+          systemInstruction += `\n${buildHandoverNote(handoverFrom, priorTranscript)}`;
+        } else if (priorTranscript.length > 0) {
+          systemInstruction += `\n${buildResumeNote(priorTranscript)}`;
+        }
+        if (observationsRef.current) {
+          systemInstruction += `\n${formatObservationsForPrompt(observationsRef.current.table, observationsRef.current.check)}`;
+        }
+
+        return backend.connect({
+          mode,
+          systemInstruction,
+          voiceName: examiner.voiceName,
+          classLevel,
+          syllabusUnitIds,
+          experimentId,
+          resumeHandle: mode === ExamMode.VOICE ? resumeHandlesRef.current[examiner.id] : undefined
+        }, {
+          onOpen: () => {
+            // The viva starts once every panel member is connected.
+            if (connectionId !== connectionIdRef.current || ++openCount < examiners.length) return;
+            reconnectAttemptRef.current = 0;
+            setReconnectAttempt(0);
             onStatusChange(ExamStatus.ACTIVE);
             setIsActive(true);
-            
-            const source = inputAudioContextRef.current!.createMediaStreamSource(streamRef.current!);
-            const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (event) => {
-              if (isClosingRef.current || !sessionRef.current) return;
-              const inputData = event.inputBuffer.getChannelData(0);
-              const l = inputData.length;
-              const int16 = new Int16Array(l);
-              for (let i = 0; i < l; i++) int16[i] = inputData[i] * 32768;
-              const pcmBlob = { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' };
-              sessionPromise.then(s => {
-                 if (s && !isClosingRef.current) s.sendRealtimeInput({ media: pcmBlob });
+            handoverFromRef.current = null;
+            const opening = handoverFrom ? HANDOVER_PROMPT : priorTranscript.length > 0 ? TEXT_MODE_RESUME : TEXT_MODE_OPENING;
+            // A session that failed to connect, or a send that throws, is treated like a dropped connection.
+            const sendOpening = () => sessionPromises[activeExaminerIndexRef.current]
+              .then(s => {
+                if (!isClosingRef.current) s.sendText(opening);
+              })
+              .catch(err => {
+                console.error("Opening prompt failed:", err);
+                handleDrop();
               });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContextRef.current!.destination);
-
-            frameIntervalRef.current = window.setInterval(() => {
-              if (videoRef.current && canvasRef.current && !isClosingRef.current && sessionRef.current) {
-                const video = videoRef.current;
-                const canvas = canvasRef.current;
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                  canvas.width = 320; 
-                  canvas.height = 240;
-                  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                  const dataUrl = canvas.toDataURL('image/jpeg', 0.4);
-                  const base64Data = dataUrl.split(',')[1];
-                  
-                  setIsAnalyzing(true);
-                  setTimeout(() => setIsAnalyzing(false), 200);
-
-                  sessionPromise.then(s => {
-                    if (s && !isClosingRef.current) s.sendRealtimeInput({
-                      media: { data: base64Data, mimeType: 'image/jpeg' }
-                    });
-                  });
-                }
-              }
-            }, 3000);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              setIsExaminerSpeaking(true);
-              const ctx = outputAudioContextRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(ctx.destination);
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setIsExaminerSpeaking(false);
-              });
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
+            if (mode === ExamMode.TEXT) {
+              setIsAwaitingReply(true);
+              sendOpening();
+            } else {
+              startMediaStreaming();
+              // Live examiners wait for the candidate to speak, so only a handover needs a prompt.
+              if (handoverFrom) sendOpening();
             }
-
-            if (message.serverContent?.outputTranscription) {
-              const text = message.serverContent.outputTranscription.text;
-              currentOutputTextRef.current += text;
-              setCurrentOutputText(prev => prev + text);
-            } else if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
-              currentInputTextRef.current += text;
-              setCurrentInputText(prev => prev + text);
+          },
+          onAudio: (base64Audio) => {
+            if (isActiveExaminer() && !isPausedRef.current) playExaminerAudio(base64Audio);
+          },
+          onOutputTranscription: (text) => {
+            if (!isActiveExaminer()) return;
+            outputStartedAtRef.current ??= Date.now();
+            currentOutputTextRef.current += text;
+            // Typed replies arrive whole, so they skip the streaming preview bubble.
+            if (mode === ExamMode.VOICE) setCurrentOutputText(prev => prev + text);
+          },
+          onInputTranscription: (text) => {
+            if (!isActiveExaminer()) return;
+            inputStartedAtRef.current ??= Date.now();
+            currentInputTextRef.current += text;
+            setCurrentInputText(prev => prev + text);
+          },
+          onTurnComplete: () => {
+            if (!isActiveExaminer()) return;
+            const finalInput = currentInputTextRef.current;
+            const finalOutput = currentOutputTextRef.current;
+            const inputStartedAt = inputStartedAtRef.current ?? Date.now();
+            const outputStartedAt = outputStartedAtRef.current ?? Date.now();
+            
+            setTranscriptions(prev => {
+              const next = [...prev];
+              if (finalInput) {
+                next.push({ 
+                  role: 'user', 
+                  text: finalInput, 
+                  timestamp: inputStartedAt,
+                  avatar: '👤',
+                  senderName: 'Candidate'
+                });
+              }
+              if (finalOutput) {
+                next.push({ 
+                  role: 'examiner', 
+                  text: finalOutput, 
+                  timestamp: outputStartedAt,
+                  avatar: examiner.icon,
+                  senderName: examiner.label,
+                  examinerId: examiner.id
+                });
+              }
+              return next;
+            });
+            proctorRef.current?.noteActivity();
+            if (finalInput) recordAnswer(finalInput, inputStartedAt);
+            if (finalOutput) lastQuestionRef.current = finalOutput;
+            if (mode === ExamMode.TEXT) {
+              setIsAwaitingReply(false);
+              if (finalOutput) speakReply(finalOutput);
             }
-
-            if (message.serverContent?.turnComplete) {
-              const finalInput = currentInputTextRef.current;
-              const finalOutput = currentOutputTextRef.current;
-              
-              setTranscriptions(prev => {
-                const next = [...prev];
-                if (finalInput) {
-                  next.push({ 
-                    role: 'user', 
-                    text: finalInput, 
-                    timestamp: Date.now(),
-                    avatar: '👤',
-                    senderName: 'Candidate'
-                  });
-                }
-                if (finalOutput) {
-                  next.push({ 
-                    role: 'examiner', 
-                    text: finalOutput, 
-                    timestamp: Date.now(),
-                    avatar: selectedPersona.icon,
-                    senderName: selectedPersona.label
-                  });
-                }
-                return next;
+            if (examiners.length > 1) {
+              const lines = [finalInput && `Candidate: ${finalInput}`, finalOutput && `${examiner.label}: ${finalOutput}`].filter(Boolean) as string[];
+              missedLinesRef.current.forEach((missed, i) => {
+                if (i !== index) missed.push(...lines);
               });
-              
-              currentInputTextRef.current = '';
-              currentOutputTextRef.current = '';
-              setCurrentInputText('');
-              setCurrentOutputText('');
-            }
-
-            if (message.serverContent?.interrupted) {
-              for (const source of sourcesRef.current.values()) {
-                try { source.stop(); } catch(e) {}
-              }
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsExaminerSpeaking(false);
+              if (finalOutput) passTurn();
             }
+            
+            currentInputTextRef.current = '';
+            currentOutputTextRef.current = '';
+            inputStartedAtRef.current = null;
+            outputStartedAtRef.current = null;
+            setCurrentInputText('');
+            setCurrentOutputText('');
           },
-          onerror: async (e: any) => {
-            console.error("Session Error:", e);
-            setErrorMessage("System error. Restarting...");
-            setTimeout(startSession, 1500);
+          onInterrupted: () => {
+            if (isActiveExaminer()) haltExaminerAudio();
           },
-          onclose: () => {
-            setIsActive(false);
-          }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          thinkingConfig: { thinkingBudget: 0 },
-          speechConfig: { 
-            voiceConfig: { 
-              prebuiltVoiceConfig: { 
-                voiceName: selectedPersona.voiceName 
-              } 
-            } 
+          onResumptionHandle: (handle) => {
+            resumeHandlesRef.current[examiner.id] = handle;
           },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          systemInstruction: `You are a Board Physics Examiner for Class ${classLevel}. 
-          Language: Hinglish (Hindi + English). Technical terms MUST be in English.
-          Persona: ${selectedPersona.instruction}
-          Difficulty: ${difficultyInstructions[difficulty]}
-          ${syllabusFocus}
-          Goal: Conduct a concise, high-speed ${Math.floor(initialTimeSeconds / 60)}-minute viva. Ask questions STRICTLY from the Class ${classLevel} syllabus. Observe the camera feed for any diagrams or equipment shown and ask questions about them.`
-        }
+          onError: (e) => {
+            console.error("Session Error:", e);
+            if (mode === ExamMode.TEXT) {
+              setIsAwaitingReply(false);
+              setErrorMessage("Examiner did not respond. Please resend your answer.");
+              return;
+            }
+            handleDrop();
+          },
+          onClose: handleDrop
+        });
       });
-      sessionRef.current = await sessionPromise;
+      const settled = await Promise.allSettled(sessionPromises);
+      const sessions = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+      if (connectionId !== connectionIdRef.current) {
+        sessions.forEach(session => session.close());
+        return;
+      }
+      sessionsRef.current = sessions;
+      const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) throw failure.reason;
+      sessionRef.current = sessions[activeExaminerIndexRef.current];
     } catch (err: any) {
       console.error("Connection Catch:", err);
-      setErrorMessage("Microphone/Camera access error.");
-      onStatusChange(ExamStatus.ERROR);
+      if (connectionId !== connectionIdRef.current) return;
+      // A handle the server rejects would fail every retry, so fall back to the transcript recap.
+      resumeHandlesRef.current = {};
+      if (reconnectAttemptRef.current > 0) {
+        handleDrop();
+        return;
+      }
+      setErrorMessage("Could not reach the examiner.");
+      suspendExam("Could not reach the examiner.");
     }
-  }, [onStatusChange, selectedPersona, difficulty, classLevel, stopActiveSession, initialTimeSeconds]);
+  }, [onStatusChange, suspendExam, examiners, panelMembers, recordAnswer, classLevel, syllabusUnitIds, experimentId, mode, inputMode, visionProfile, devices, stopActiveSession, speakReply, playExaminerAudio, haltExaminerAudio, initialTimeSeconds]);
+
+  const startTalking = useCallback(() => {
+    if (isTalkingRef.current) return;
+    isTalkingRef.current = true;
+    setIsTransmitting(true);
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    setIsTransmitting(false);
+    sessionRef.current?.endAudioStream();
+  }, []);
 
+  useEffect(() => {
+    if (mode !== ExamMode.VOICE || inputMode !== InputMode.PUSH_TO_TALK) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [mode, inputMode, startTalking, stopTalking]);
+
+  const pauseExam = () => {
+    if (isPausedRef.current) return;
+    isPausedRef.current = true;
+    pausedAtRef.current = Date.now();
+    setIsPaused(true);
+    haltExaminerAudio();
+  };
+
+  const resumeExam = () => {
+    if (!isPausedRef.current) return;
+    const startedAt = pausedAtRef.current ?? Date.now();
+    const endedAt = Date.now();
+    pausesRef.current.push({ startedAt, endedAt });
+    pausedAtRef.current = null;
+    isPausedRef.current = false;
+    setIsPaused(false);
+
+    const note = `[The candidate paused the viva for ${Math.round((endedAt - startedAt) / 1000)} seconds and has now resumed. Acknowledge the break in one short sentence, then repeat or continue the question you were on.]`;
+    if (mode === ExamMode.TEXT) {
+      // A reply already on its way would cross a second request, so the note rides along with the candidate's next answer.
+      if (isAwaitingReply) sessionRef.current?.addContext(note);
+      else requestExaminerReply(note);
+    } else {
+      sessionRef.current?.sendText(note);
+    }
+  };
+
+  // Restarts the session whenever the examiner changes; media stays open across handovers.
   useEffect(() => {
     isClosingRef.current = false;
     startSession();
+    return stopActiveSession;
+  }, [startSession, stopActiveSession]);
+
+  useEffect(() => {
+    isDialogOpenRef.current = isEditingObservations || isShowingDiagram;
+  }, [isEditingObservations, isShowingDiagram]);
+
+  // Proctoring starts with the viva and keeps running across reconnects and handovers.
+  useEffect(() => {
+    if (!isActive || proctorRef.current || isFinishingRef.current) return;
+    proctorRef.current = createProctor({
+      audio: mode === ExamMode.VOICE && inputAudioContextRef.current && streamRef.current
+        ? { context: inputAudioContextRef.current, stream: streamRef.current }
+        : undefined,
+      getVideo: mode === ExamMode.VOICE && visionProfile !== VisionProfile.OFF ? () => videoRef.current : undefined,
+      isSuspended: () => isPausedRef.current || isDialogOpenRef.current || reconnectAttemptRef.current > 0,
+      isExaminerTurn: () => sourcesRef.current.size > 0 || ('speechSynthesis' in window && window.speechSynthesis.speaking),
+      events: resumeState?.integrity?.events,
+      onChange: (log) => {
+        integrityRef.current = log;
+        setIntegrity(log);
+      }
+    });
+  }, [isActive, mode, visionProfile, resumeState]);
+
+  useEffect(() => {
     return () => {
       isClosingRef.current = true;
-      stopActiveSession();
+      stopProctor();
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
         streamRef.current = null;
       }
     };
-  }, [selectedPersonaId, startSession, stopActiveSession]);
+  }, []);
+
+  const handOverTo = (persona: Persona) => {
+    if (persona.id === selectedPersonaId) return;
+    if (isActive) {
+      const marker: TranscriptionEntry = {
+        role: 'system',
+        text: `${selectedPersona.label} handed over to ${persona.label}`,
+        timestamp: Date.now(),
+        avatar: '🔁',
+        senderName: 'Handover'
+      };
+      // The ref is read by startSession before the state update lands.
+      transcriptionsRef.current = [...transcriptionsRef.current, marker];
+      setTranscriptions(prev => [...prev, marker]);
+      handoverFromRef.current = selectedPersona;
+      currentInputTextRef.current = '';
+      currentOutputTextRef.current = '';
+      inputStartedAtRef.current = null;
+      outputStartedAtRef.current = null;
+      setCurrentInputText('');
+      setCurrentOutputText('');
+      // A stored handle would restore this examiner's older context without the handover briefing.
+      delete resumeHandlesRef.current[persona.id];
+    }
+    setSelectedPersonaId(persona.id);
+  };
+
+  const submitObservations = (table: ObservationTable) => {
+    const record: ObservationRecord = { table, check: checkObservations(table), submittedAt: Date.now() };
+    observationsRef.current = record;
+    setObservations(record);
+    setIsEditingObservations(false);
+    const marker: TranscriptionEntry = {
+      role: 'system',
+      text: `Observation table submitted • ${filledRows(table).length} readings`,
+      timestamp: record.submittedAt,
+      avatar: '📋',
+      senderName: 'Observations'
+    };
+    transcriptionsRef.current = [...transcriptionsRef.current, marker];
+    setTranscriptions(prev => [...prev, marker]);
+    sessionsRef.current.forEach(session => session.addContext(formatObservationsForPrompt(table, record.check)));
+  };
+
+  const sendDiagram = (image: string, caption: string) => {
+    setIsShowingDiagram(false);
+    if (!sessionRef.current) return;
+    const { data, mimeType } = splitDataUrl(image);
+    setTranscriptions(prev => [...prev, {
+      role: 'user',
+      text: caption || 'Showed a diagram',
+      timestamp: Date.now(),
+      avatar: '👤',
+      senderName: 'Candidate',
+      image
+    }]);
+    if (examiners.length > 1) {
+      missedLinesRef.current.forEach((missed, i) => {
+        if (i !== activeExaminerIndexRef.current) missed.push(`Candidate showed a diagram${caption ? `: ${caption}` : ''}`);
+      });
+    }
+    if (mode === ExamMode.TEXT) setIsAwaitingReply(true);
+    sessionRef.current.sendImageTurn(data, mimeType, caption ? `${DIAGRAM_PROMPT}\nThe candidate says: ${caption}` : DIAGRAM_PROMPT);
+  };
 
   return (
     <div className="w-full max-w-7xl min-h-[80vh] grid lg:grid-cols-4 gap-6 animate-in fade-in zoom-in duration-700">
@@ -387,24 +939,62 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
           </div>
           
           <div className={`w-24 h-24 rounded-full border-2 ${isExaminerSpeaking ? 'border-indigo-500 shadow-[0_0_20px_rgba(79,70,229,0.3)]' : 'border-slate-800'} transition-all flex items-center justify-center bg-slate-950 overflow-hidden relative group`}>
-            {isExaminerSpeaking ? <div className="px-4 w-full h-10"><AudioVisualizer isSpeaking={true} /></div> : 
+            {isExaminerSpeaking && outputAnalyser ? <div className="px-4 w-full h-10"><AudioVisualizer outputAnalyser={outputAnalyser} barCount={12} /></div> : 
               <span className="text-4xl group-hover:scale-110 transition-transform">
-                {selectedPersona.icon}
+                {activeExaminer.icon}
               </span>
             }
           </div>
 
           <div className="space-y-1 z-10">
-            <h3 className="text-lg font-bold tracking-tight text-indigo-50">{selectedPersona.label}</h3>
+            <h3 className="text-lg font-bold tracking-tight text-indigo-50">{activeExaminer.label}</h3>
             <p className="text-[10px] text-slate-500 uppercase tracking-[0.2em] font-bold">Physics Evaluator • Class {classLevel}</p>
+            {adaptiveDifficulty && (
+              <p className="text-[10px] text-indigo-300/80 uppercase tracking-[0.2em] font-bold">Adaptive level • {currentDifficulty}</p>
+            )}
+            {experimentId && (
+              <p className="text-[10px] text-emerald-300/80 font-bold leading-snug">Practical • {findExperiment(experimentId)?.experiment.title}</p>
+            )}
           </div>
 
+          {experimentId && (
+            <button
+              onClick={() => setIsEditingObservations(true)}
+              disabled={!isActive}
+              className="w-full px-3 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-300 border border-emerald-500/30 rounded-xl font-bold text-[10px] uppercase tracking-widest transition-all z-10 disabled:opacity-40 disabled:pointer-events-none"
+            >
+              📋 {observations ? 'Update Observation Table' : 'Submit Observation Table'}
+            </button>
+          )}
+
+          {panelMembers ? (
+            <div className="w-full space-y-2 z-10">
+              <div className="flex justify-center gap-1.5">
+                {panelMembers.map((p, i) => (
+                  <div
+                    key={p.id}
+                    title={p.label}
+                    className={`p-2 rounded-lg text-sm transition-all border ${
+                      activeExaminerIndex === i
+                        ? 'bg-indigo-600 border-indigo-400 text-white shadow-lg'
+                        : 'bg-slate-800 border-slate-700 text-slate-500'
+                    }`}
+                  >
+                    {p.icon}
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-indigo-300/60 font-medium leading-relaxed min-h-[3em]">
+                Panel viva • {panelMembers.length} examiners take turns asking
+              </p>
+            </div>
+          ) : (
           <div className="w-full space-y-2 z-10">
             <div className="grid grid-cols-5 gap-1.5">
-              {PERSONAS.map((p) => (
+              {personas.map((p) => (
                 <button
                   key={p.id}
-                  onClick={() => setSelectedPersonaId(p.id)}
+                  onClick={() => handOverTo(p)}
                   title={p.label}
                   className={`p-2 rounded-lg text-sm transition-all border ${
                     selectedPersonaId === p.id 
@@ -420,11 +1010,19 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
               {selectedPersona.description}
             </p>
           </div>
+          )}
 
           <div className={`w-full p-3 rounded-xl flex items-center justify-between border transition-all ${timeLeft < 60 ? 'bg-red-500/10 border-red-500/40' : 'bg-slate-950 border-slate-800'}`}>
             <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Remaining</span>
             <span className={`font-mono font-bold text-sm ${timeLeft < 60 ? 'text-red-400 animate-pulse' : 'text-indigo-400'}`}>{formatTime(timeLeft)}</span>
           </div>
+
+          {integrity && (
+            <div className="w-full flex items-center justify-between text-[9px] font-bold uppercase tracking-widest text-slate-500 z-10" title="Focus, camera, voice and silence checks run on this device and are summarised in your report">
+              <span>Proctoring on</span>
+              <span className={integrity.events.length > 0 ? 'text-amber-400' : ''}>{integrity.events.length} flagged</span>
+            </div>
+          )}
         </div>
 
         {/* Vision Feed */}
@@ -437,6 +1035,29 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
              className={`w-full h-full object-cover grayscale opacity-40 group-hover:grayscale-0 group-hover:opacity-100 transition-all duration-1000 ${isAnalyzing ? 'brightness-125 saturate-150' : ''}`} 
            />
            
+           {mode === ExamMode.TEXT && (
+             <div className="absolute inset-0 flex flex-col items-center justify-center space-y-2 text-center px-6">
+               <span className="text-2xl opacity-40">⌨️</span>
+               <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Typed viva • camera off</span>
+             </div>
+           )}
+
+           {mode === ExamMode.VOICE && visionProfile === VisionProfile.OFF && (
+             <div className="absolute inset-0 flex flex-col items-center justify-center space-y-2 text-center px-6">
+               <span className="text-2xl opacity-40">🚫</span>
+               <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Vision off • camera not shared</span>
+             </div>
+           )}
+
+           {mode === ExamMode.VOICE && visionProfile !== VisionProfile.OFF && (
+             <div className="absolute bottom-4 left-4 right-4 flex justify-between text-[9px] font-bold text-white/80 uppercase tracking-widest pointer-events-none">
+               <span className="bg-black/40 px-2 py-1 rounded backdrop-blur-sm">{FRAME_PROFILES[visionProfile].label}</span>
+               <span className="bg-black/40 px-2 py-1 rounded backdrop-blur-sm font-mono" title="Frames sent to the examiner • unchanged frames skipped">
+                 {frameCounts.sent} sent • {frameCounts.skipped} skipped
+               </span>
+             </div>
+           )}
+           
            <div className="absolute inset-0 pointer-events-none overflow-hidden">
               <div className={`w-full h-[1px] bg-indigo-500/50 shadow-[0_0_15px_rgba(79,70,229,1)] absolute transition-all duration-[2000ms] ease-in-out ${isAnalyzing ? 'top-[95%] opacity-100' : 'top-0 opacity-0'} animate-scan`} />
               <div className="absolute top-4 left-4 flex items-center space-x-2">
@@ -444,7 +1065,6 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
                  <span className="text-[9px] font-bold text-white/80 uppercase tracking-widest bg-black/40 px-2 py-1 rounded backdrop-blur-sm">SECURE FEED</span>
               </div>
            </div>
-           <canvas ref={canvasRef} className="hidden" />
         </div>
       </div>
 
@@ -462,6 +1082,23 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
           )}
         </div>
 
+        {reconnectAttempt > 0 && (
+          <div className="px-4 py-2 bg-amber-500/10 border-b border-amber-500/30 flex items-center justify-center space-x-3">
+            <div className="w-3 h-3 border-2 border-amber-400 border-t-transparent rounded-full animate-spin" />
+            <span className="text-[10px] font-bold text-amber-300 uppercase tracking-widest">
+              Connection lost • Reconnecting (attempt {reconnectAttempt} of {RECONNECT_MAX_ATTEMPTS}) • Timer paused
+            </span>
+          </div>
+        )}
+
+        {isPaused && (
+          <div className="px-4 py-2 bg-indigo-500/10 border-b border-indigo-500/30 flex items-center justify-center">
+            <span className="text-[10px] font-bold text-indigo-300 uppercase tracking-widest">
+              Viva paused • Timer frozen • {mode === ExamMode.TEXT ? 'Answers disabled' : 'Microphone and camera muted'}
+            </span>
+          </div>
+        )}
+
         <div ref={scrollRef} className="flex-grow overflow-y-auto p-6 space-y-6 scrollbar-thin scrollbar-thumb-slate-800 scrollbar-track-transparent max-h-[50vh] lg:max-h-[60vh]">
           {transcriptions.length === 0 && !currentInputText && !currentOutputText && (
             <div className="h-full flex flex-col items-center justify-center space-y-4 opacity-30 text-center px-10 py-20">
@@ -469,11 +1106,17 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
                </svg>
                <p className="text-xs font-mono uppercase tracking-widest">
-                 {isActive ? "Examiner is listening..." : "Connecting to Board Protocol..."}
+                 {!isActive ? "Connecting to Board Protocol..." : mode === ExamMode.TEXT ? "Examiner is preparing a question..." : "Examiner is listening..."}
                </p>
             </div>
           )}
-          {transcriptions.map((t, i) => (
+          {transcriptions.map((t, i) => t.role === 'system' ? (
+            <div key={i} className="flex items-center gap-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest animate-in fade-in duration-300">
+              <div className="flex-grow h-px bg-slate-800" />
+              <span>{t.avatar} {t.text} • {new Date(t.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              <div className="flex-grow h-px bg-slate-800" />
+            </div>
+          ) : (
             <div key={i} className={`flex ${t.role === 'user' ? 'flex-row-reverse' : 'flex-row'} items-end space-x-3 space-x-reverse animate-in fade-in slide-in-from-bottom-2 duration-300`}>
               {/* Avatar Circle */}
               <div className={`flex-shrink-0 w-10 h-10 rounded-full border border-slate-700 flex items-center justify-center bg-slate-950 text-xl shadow-lg ${t.role === 'user' ? 'ml-2 ring-2 ring-indigo-500/20' : 'mr-2 ring-2 ring-slate-700/50'}`}>
@@ -490,6 +1133,7 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
                    </span>
                 </div>
                 <p className="text-sm leading-relaxed whitespace-pre-wrap">{t.text}</p>
+                {t.image && <img src={t.image} alt="Diagram shown to the examiner" className="mt-2 max-h-48 rounded-lg border border-white/20" />}
               </div>
             </div>
           ))}
@@ -503,18 +1147,79 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
           
           {currentOutputText && (
             <div className="flex flex-row items-end space-x-3 animate-pulse">
-               <div className="flex-shrink-0 w-10 h-10 rounded-full border border-slate-700 flex items-center justify-center bg-slate-950 text-xl mr-2 ring-2 ring-slate-700/50">{selectedPersona.icon}</div>
+               <div className="flex-shrink-0 w-10 h-10 rounded-full border border-slate-700 flex items-center justify-center bg-slate-950 text-xl mr-2 ring-2 ring-slate-700/50">{activeExaminer.icon}</div>
                <div className="max-w-[75%] p-4 rounded-2xl bg-slate-800/50 text-slate-400 rounded-bl-none italic text-sm border border-slate-700/30">{currentOutputText}</div>
             </div>
           )}
         </div>
 
         <div className="p-6 border-t border-slate-800 bg-slate-950/60 rounded-b-3xl flex items-center space-x-6">
-          <div className="flex-grow h-12">
-             <AudioVisualizer isSpeaking={isActive && (isExaminerSpeaking || !!currentInputText)} />
-          </div>
+          {mode === ExamMode.TEXT ? (
+            <form onSubmit={submitTypedAnswer} className="flex-grow flex items-center space-x-3">
+              <input
+                type="text"
+                value={draftAnswer}
+                onChange={(e) => {
+                  setDraftAnswer(e.target.value);
+                  proctorRef.current?.noteActivity();
+                }}
+                disabled={!isActive || isPaused}
+                placeholder={isPaused ? "Viva paused" : isAwaitingReply ? "Examiner is typing..." : "Type your answer and press Enter"}
+                className="flex-grow px-4 py-3 bg-slate-900 border border-slate-700 rounded-xl text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={!isActive || isPaused || isAwaitingReply || !draftAnswer.trim()}
+                className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all text-xs uppercase tracking-widest disabled:opacity-40 disabled:pointer-events-none"
+              >
+                Send
+              </button>
+            </form>
+          ) : (
+            <div className="flex-grow flex items-center space-x-4">
+              <div className="w-32 flex-shrink-0 space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{INPUT_MODE_LABELS[inputMode]}</span>
+                  <span className={`w-1.5 h-1.5 rounded-full ${isTransmitting && isActive && !isPaused ? 'bg-red-500 animate-pulse' : 'bg-slate-700'}`} title={isTransmitting ? 'Sending audio' : 'Not sending audio'} />
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div ref={micMeterRef} className="h-full w-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500 transition-[width] duration-100" />
+                </div>
+              </div>
+              <div className="flex-grow h-12">
+                 <AudioVisualizer inputAnalyser={isActive && !isPaused ? inputAnalyser : null} outputAnalyser={outputAnalyser} inputPeakRef={inputPeakRef} />
+              </div>
+              {inputMode === InputMode.PUSH_TO_TALK && (
+                <button
+                  onPointerDown={startTalking}
+                  onPointerUp={stopTalking}
+                  onPointerLeave={stopTalking}
+                  disabled={!isActive || isPaused}
+                  className={`px-5 py-3 rounded-xl font-bold transition-all text-xs uppercase tracking-widest border select-none disabled:opacity-40 disabled:pointer-events-none ${
+                    isTransmitting ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                  }`}
+                >
+                  {isTransmitting ? 'Talking…' : 'Hold Space'}
+                </button>
+              )}
+            </div>
+          )}
+          <button
+            onClick={() => setIsShowingDiagram(true)}
+            disabled={!isActive || isPaused || (mode === ExamMode.TEXT && isAwaitingReply)}
+            className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 rounded-xl font-bold transition-all text-xs uppercase tracking-widest active:scale-95 disabled:opacity-40 disabled:pointer-events-none whitespace-nowrap"
+          >
+            Show Diagram
+          </button>
+          <button
+            onClick={isPaused ? resumeExam : pauseExam}
+            disabled={!isActive && !isPaused}
+            className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 rounded-xl font-bold transition-all text-xs uppercase tracking-widest active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
           <button 
-            onClick={() => onEnd(transcriptions)} 
+            onClick={finishExam} 
             className="px-8 py-3 bg-red-600/10 hover:bg-red-600/20 text-red-500 border border-red-500/30 rounded-xl font-bold transition-all text-xs uppercase tracking-widest active:scale-95 shadow-lg shadow-red-900/10"
           >
             End Session
@@ -522,6 +1227,22 @@ const ExamRoom: React.FC<ExamRoomProps> = ({ onEnd, onStatusChange, difficulty,
         </div>
       </div>
       
+      {isEditingObservations && (
+        <ObservationTableEditor
+          initialTable={observations?.table}
+          onSubmit={submitObservations}
+          onCancel={() => setIsEditingObservations(false)}
+        />
+      )}
+
+      {isShowingDiagram && (
+        <DiagramCapture
+          capture={mode === ExamMode.VOICE && visionProfile !== VisionProfile.OFF ? () => videoRef.current ? captureVideoStill(videoRef.current) : null : undefined}
+          onSend={sendDiagram}
+          onCancel={() => setIsShowingDiagram(false)}
+        />
+      )}
+
       <style>{`
         @keyframes scan {
           0%, 100% { top: 0; }
@@ -0,0 +1,235 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ExamAttempt, DifficultyLevel } from '../types';
+import { listAttempts, deleteAttempt, saveAttempt, createAttemptId } from '../services/sessionStore';
+import { getExaminerBackend } from '../services/examinerBackend';
+import { loadRubric } from '../services/rubricStore';
+import { parseTranscriptExport, downloadTranscript } from '../utils/transcriptExport';
+import ReportView from './ReportView';
+import { isGraded } from '../utils/scoring';
+
+interface HistoryScreenProps {
+  onBack: () => void;
+}
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack }) => {
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [openAttempt, setOpenAttempt] = useState<ExamAttempt | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listAttempts()
+      .then(setAttempts)
+      .catch((error) => {
+        console.error("Failed to load attempt history:", error);
+        setLoadError("Could not read the local attempt archive.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (attempt: ExamAttempt) => {
+    if (!window.confirm(`Delete the attempt from ${new Date(attempt.startedAt).toLocaleString()}? This cannot be undone.`)) return;
+    try {
+      await deleteAttempt(attempt.id);
+      setAttempts(prev => prev.filter(a => a.id !== attempt.id));
+    } catch (error) {
+      console.error("Failed to delete attempt:", error);
+      setLoadError("Could not delete the selected attempt.");
+    }
+  };
+
+  const handleRetryEvaluation = async (attempt: ExamAttempt) => {
+    setRetryingId(attempt.id);
+    setLoadError(null);
+    try {
+      const backend = getExaminerBackend();
+      const syllabusUnitIds = attempt.syllabusUnitIds ?? [];
+      const [stats, questions] = await Promise.all([
+        backend.generateReport(attempt.transcript, attempt.classLevel, attempt.difficulty, syllabusUnitIds, loadRubric(), attempt.experimentId),
+        attempt.questions && attempt.questions.length > 0
+          ? Promise.resolve(attempt.questions)
+          : backend.analyseQuestions(attempt.transcript, attempt.classLevel, syllabusUnitIds, attempt.experimentId)
+      ]);
+      if (!isGraded(stats)) {
+        setLoadError("The evaluation failed again. Check your connection and try later.");
+        return;
+      }
+      const regraded = { ...attempt, stats, questions };
+      await saveAttempt(regraded);
+      setAttempts(prev => prev.map(a => a.id === regraded.id ? regraded : a));
+    } catch (error) {
+      console.error("Evaluation retry failed:", error);
+      setLoadError("Could not save the new evaluation.");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setLoadError(null);
+    try {
+      const imported = parseTranscriptExport(await file.text());
+      const backend = getExaminerBackend();
+      const [stats, questions, checklist] = await Promise.all([
+        backend.generateReport(imported.transcript, imported.classLevel, imported.difficulty, imported.syllabusUnitIds, loadRubric(), imported.experimentId),
+        backend.analyseQuestions(imported.transcript, imported.classLevel, imported.syllabusUnitIds, imported.experimentId),
+        imported.experimentId
+          ? backend.assessPractical(imported.transcript, imported.experimentId, imported.classLevel)
+          : Promise.resolve(undefined)
+      ]);
+      const attempt: ExamAttempt = {
+        id: createAttemptId(),
+        classLevel: imported.classLevel,
+        difficulty: imported.difficulty,
+        durationSeconds: imported.durationSeconds,
+        mode: imported.mode,
+        syllabusUnitIds: imported.syllabusUnitIds,
+        personaId: imported.personaId,
+        personaLabel: imported.personaLabel,
+        panel: imported.panel,
+        transcript: imported.transcript,
+        stats,
+        questions,
+        pauses: imported.pauses,
+        difficultyTrajectory: imported.difficultyTrajectory,
+        experimentId: imported.experimentId,
+        checklist,
+        observations: imported.observations,
+        integrity: imported.integrity,
+        startedAt: imported.startedAt,
+        endedAt: imported.endedAt
+      };
+      await saveAttempt(attempt);
+      setAttempts(prev => [attempt, ...prev].sort((a, b) => b.startedAt - a.startedAt));
+      setOpenAttempt(attempt);
+    } catch (error) {
+      console.error("Transcript import failed:", error);
+      setLoadError(error instanceof Error ? error.message : "Could not import the transcript.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (openAttempt) {
+    return (
+      <div className="max-w-3xl w-full bg-slate-900 border border-slate-800 rounded-3xl p-6 md:p-8 text-center space-y-8 animate-in fade-in zoom-in duration-500 shadow-2xl relative overflow-hidden">
+        <ReportView attempt={openAttempt} onClose={() => setOpenAttempt(null)} closeLabel="Back to History" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl w-full bg-slate-900 border border-slate-800 rounded-3xl p-6 md:p-8 space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700 shadow-2xl">
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-extrabold text-white">Past Attempts</h2>
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">Stored on this device</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-700 disabled:opacity-40"
+          >
+            {isImporting ? 'Re-grading...' : 'Import & Re-grade'}
+          </button>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-700"
+          >
+            Back
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {loadError && (
+        <div className="text-xs font-bold text-red-400 bg-red-900/20 px-3 py-2 rounded-xl border border-red-900/40">
+          {loadError}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-16 flex justify-center">
+          <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : attempts.length === 0 ? (
+        <p className="py-16 text-center text-xs font-mono uppercase tracking-widest text-slate-600">
+          No attempts recorded yet
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {attempts.map((attempt) => (
+            <li key={attempt.id} className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-4 min-w-0">
+                <span className="text-2xl font-bold text-indigo-400 w-12 text-center">{isGraded(attempt.stats) ? attempt.stats.grade : '—'}</span>
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-white truncate">
+                    Class {attempt.classLevel} • {isGraded(attempt.stats) ? `${attempt.stats.score}%` : <span className="text-red-400">Evaluation failed</span>} • {attempt.personaLabel}
+                  </p>
+                  <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest">
+                    {new Date(attempt.startedAt).toLocaleString()} • {Math.floor(attempt.durationSeconds / 60)}M •{' '}
+                    <span className={
+                      attempt.difficulty === DifficultyLevel.HARD ? 'text-red-400' :
+                      attempt.difficulty === DifficultyLevel.MEDIUM ? 'text-indigo-400' : 'text-green-400'
+                    }>
+                      {attempt.difficulty}
+                    </span>
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {!isGraded(attempt.stats) && (
+                  <button
+                    onClick={() => handleRetryEvaluation(attempt)}
+                    disabled={retryingId !== null}
+                    className="px-3 py-2 bg-amber-600/10 hover:bg-amber-600/20 text-amber-400 border border-amber-500/30 rounded-lg font-bold text-xs transition-all disabled:opacity-40"
+                  >
+                    {retryingId === attempt.id ? 'Grading...' : 'Retry Evaluation'}
+                  </button>
+                )}
+                <button
+                  onClick={() => setOpenAttempt(attempt)}
+                  className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-bold text-xs transition-all"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => downloadTranscript(attempt, 'json')}
+                  title="Export transcript as JSON"
+                  className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 rounded-lg font-bold text-xs transition-all"
+                >
+                  JSON
+                </button>
+                <button
+                  onClick={() => downloadTranscript(attempt, 'md')}
+                  title="Export transcript as Markdown"
+                  className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 rounded-lg font-bold text-xs transition-all"
+                >
+                  MD
+                </button>
+                <button
+                  onClick={() => handleDelete(attempt)}
+                  className="px-3 py-2 bg-red-600/10 hover:bg-red-600/20 text-red-500 border border-red-500/30 rounded-lg font-bold text-xs transition-all"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryScreen;
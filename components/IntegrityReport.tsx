@@ -0,0 +1,74 @@
+import React from 'react';
+import { IntegrityEventKind, IntegrityLog } from '../types';
+import { INTEGRITY_EVENT_LABELS, formatSpan, integrityDuration } from '../utils/proctoring';
+
+interface IntegrityReportProps {
+  log: IntegrityLog;
+  /** When the viva ended; closes any signal still open at that point. */
+  endedAt: number;
+}
+
+const ALL_KINDS = Object.keys(INTEGRITY_EVENT_LABELS) as IntegrityEventKind[];
+
+/** Integrity signals raised during the viva, summarised per check and as a timeline. */
+const IntegrityReport: React.FC<IntegrityReportProps> = ({ log, endedAt }) => {
+  const skipped = ALL_KINDS.filter(kind => !log.checks.includes(kind));
+
+  return (
+    <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Integrity</h3>
+        <span className={`font-mono font-bold text-sm whitespace-nowrap ${log.events.length > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+          {log.events.length === 0 ? 'Nothing flagged' : `${log.events.length} flagged`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {log.checks.map(kind => {
+          const count = log.events.filter(e => e.kind === kind).length;
+          return (
+            <div key={kind} className={`p-3 rounded-xl border ${count > 0 ? 'bg-amber-500/5 border-amber-500/30' : 'bg-slate-900 border-slate-800'}`}>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{INTEGRITY_EVENT_LABELS[kind]}</p>
+              <p className={`text-sm font-mono font-bold ${count > 0 ? 'text-amber-300' : 'text-slate-400'}`}>
+                {count === 0 ? '—' : `${count}× • ${formatSpan(integrityDuration(log.events, kind, endedAt))}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {log.events.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-800">
+                <th className="py-2 pr-4 text-left font-bold">Time</th>
+                <th className="py-2 pr-4 text-left font-bold">Signal</th>
+                <th className="py-2 pr-4 text-left font-bold">Duration</th>
+                <th className="py-2 text-left font-bold">Detail</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {log.events.map((event, i) => (
+                <tr key={i} className="border-b border-slate-900">
+                  <td className="py-1.5 pr-4 font-mono text-slate-500">{new Date(event.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</td>
+                  <td className="py-1.5 pr-4">{INTEGRITY_EVENT_LABELS[event.kind]}</td>
+                  <td className="py-1.5 pr-4 font-mono">{formatSpan((event.endedAt ?? endedAt) - event.startedAt)}{event.endedAt === undefined && ' (to end)'}</td>
+                  <td className="py-1.5 text-slate-500">{event.detail ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {skipped.length > 0 && (
+        <p className="text-[10px] text-slate-600">
+          Not checked on this device: {skipped.map(kind => INTEGRITY_EVENT_LABELS[kind].toLowerCase()).join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default IntegrityReport;
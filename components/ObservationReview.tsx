@@ -0,0 +1,95 @@
+import React from 'react';
+import { ObservationRecord } from '../types';
+import { OBSERVATION_ISSUE_LABELS, columnLabel, filledRows, roundForDisplay } from '../utils/observations';
+
+interface ObservationReviewProps {
+  record: ObservationRecord;
+}
+
+/** The submitted observation table with its means, slope and error recomputed alongside the candidate's own. */
+const ObservationReview: React.FC<ObservationReviewProps> = ({ record }) => {
+  const { table, check } = record;
+  const hasMeans = table.means.some(m => m.trim() !== '');
+
+  return (
+    <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Observation Table</h3>
+        <span className={`font-mono font-bold text-sm whitespace-nowrap ${check.issues.length > 0 ? 'text-red-400' : 'text-green-400'}`}>
+          {check.issues.length === 0 ? 'No errors found' : `${check.issues.length} ${check.issues.length === 1 ? 'error' : 'errors'} found`}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-400 border-b border-slate-800">
+              <th className="py-2 pr-4 text-left font-bold">#</th>
+              {table.columns.map((column, c) => (
+                <th key={c} className="py-2 pr-4 text-left font-bold">
+                  {columnLabel(column, c)}{column.unit && ` (${column.unit})`}
+                  {column.leastCount && <span className="block text-[10px] text-slate-600 font-normal">L.C. {column.leastCount}</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {filledRows(table).map((row, r) => (
+              <tr key={r} className="border-b border-slate-900">
+                <td className="py-1.5 pr-4 text-slate-600">{r + 1}</td>
+                {row.map((cell, c) => <td key={c} className="py-1.5 pr-4">{cell || '—'}</td>)}
+              </tr>
+            ))}
+            {hasMeans && (
+              <tr>
+                <td className="py-1.5 pr-4 text-slate-500 font-sans font-bold">Mean</td>
+                {table.means.map((mean, c) => {
+                  const computed = check.means[c];
+                  return (
+                    <td key={c} className="py-1.5 pr-4">
+                      {mean || '—'}
+                      {computed !== null && computed !== undefined && <span className="block text-[10px] text-slate-600">calc. {roundForDisplay(computed)}</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {(table.slope || table.result?.value) && (
+        <div className="flex flex-wrap gap-x-8 gap-y-1 text-xs text-slate-400">
+          {table.slope && (
+            <span>
+              Slope: <span className="text-slate-200 font-mono">{table.slope.value || '—'}</span>
+              {check.slope !== undefined && <span className="text-slate-600"> (calc. {roundForDisplay(check.slope)})</span>}
+            </span>
+          )}
+          {table.result?.value && (
+            <span>
+              Result: <span className="text-slate-200 font-mono">{table.result.value} {table.result.unit}</span>
+              {table.result.percentError && <span> • {table.result.percentError}% error</span>}
+              {check.percentError !== undefined && <span className="text-slate-600"> (calc. {roundForDisplay(check.percentError)}%)</span>}
+            </span>
+          )}
+        </div>
+      )}
+
+      {check.issues.length > 0 && (
+        <ul className="space-y-1.5">
+          {check.issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-2 text-xs">
+              <span className="flex-shrink-0 px-2 py-0.5 rounded bg-red-500/10 border border-red-500/30 text-red-300 text-[10px] font-bold uppercase tracking-widest">
+                {OBSERVATION_ISSUE_LABELS[issue.kind]}
+              </span>
+              <span className="text-slate-300">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ObservationReview;
@@ -0,0 +1,224 @@
+import React, { useRef, useState } from 'react';
+import { ObservationColumn, ObservationTable } from '../types';
+import { columnLabel, emptyObservationTable, filledRows } from '../utils/observations';
+import { readImageFile, splitDataUrl } from '../utils/diagrams';
+import { getExaminerBackend } from '../services/examinerBackend';
+
+interface ObservationTableEditorProps {
+  initialTable?: ObservationTable;
+  onSubmit: (table: ObservationTable) => void;
+  onCancel: () => void;
+}
+
+const cellClass = "w-full px-2 py-1.5 bg-slate-950 border border-slate-700 rounded-lg text-xs text-slate-200 font-mono focus:outline-none focus:border-indigo-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest";
+
+/** Lets the candidate type in or photograph their observation table for the examiner to check. */
+const ObservationTableEditor: React.FC<ObservationTableEditorProps> = ({ initialTable, onSubmit, onCancel }) => {
+  const [table, setTable] = useState<ObservationTable>(initialTable ?? emptyObservationTable);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const setColumn = (index: number, patch: Partial<ObservationColumn>) =>
+    setTable(prev => ({ ...prev, columns: prev.columns.map((c, i) => i === index ? { ...c, ...patch } : c) }));
+
+  const setCell = (row: number, column: number, value: string) =>
+    setTable(prev => ({ ...prev, rows: prev.rows.map((r, i) => i === row ? r.map((cell, j) => j === column ? value : cell) : r) }));
+
+  const setMean = (column: number, value: string) =>
+    setTable(prev => ({ ...prev, means: prev.means.map((m, j) => j === column ? value : m) }));
+
+  const addColumn = () => setTable(prev => ({
+    ...prev,
+    columns: [...prev.columns, { name: '', unit: '' }],
+    rows: prev.rows.map(r => [...r, '']),
+    means: [...prev.means, '']
+  }));
+
+  const removeColumn = (index: number) => setTable(prev => ({
+    ...prev,
+    columns: prev.columns.filter((_, i) => i !== index),
+    rows: prev.rows.map(r => r.filter((_, i) => i !== index)),
+    means: prev.means.filter((_, i) => i !== index),
+    slope: undefined
+  }));
+
+  const addRow = () => setTable(prev => ({ ...prev, rows: [...prev.rows, prev.columns.map(() => '')] }));
+
+  const removeRow = (index: number) => setTable(prev => ({ ...prev, rows: prev.rows.filter((_, i) => i !== index) }));
+
+  const setResult = (patch: Partial<NonNullable<ObservationTable['result']>>) =>
+    setTable(prev => ({ ...prev, result: { value: '', unit: '', ...prev.result, ...patch } }));
+
+  const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setError(null);
+    try {
+      const { data, mimeType } = splitDataUrl(await readImageFile(file));
+      const read = await getExaminerBackend().readObservationTable(data, mimeType);
+      if (read) {
+        setTable(read);
+      } else {
+        setError("The table could not be read from that photo. Try a sharper, well-lit shot or type it in.");
+      }
+    } catch (err) {
+      console.error("Photo upload failed:", err);
+      setError(err instanceof Error ? err.message : "Could not open that photo.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const canSubmit = table.columns.length > 0 && filledRows(table).length > 0 && !isReading;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-800 rounded-3xl p-6 space-y-5 shadow-2xl">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-extrabold tracking-tight">Observation Table</h2>
+            <p className="text-xs text-slate-400">Enter readings exactly as in your record — the examiner will check your calculations.</p>
+          </div>
+          <input ref={photoInputRef} type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+          <button
+            onClick={() => photoInputRef.current?.click()}
+            disabled={isReading}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-xs uppercase tracking-widest transition-all border border-slate-700 disabled:opacity-40 whitespace-nowrap"
+          >
+            {isReading ? 'Reading photo…' : '📷 Read from photo'}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="w-8" />
+                {table.columns.map((column, c) => (
+                  <th key={c} className="min-w-[8rem] space-y-1 align-top font-normal">
+                    <div className="flex gap-1">
+                      <input value={column.name} onChange={(e) => setColumn(c, { name: e.target.value })} placeholder={columnLabel(column, c)} className={cellClass} />
+                      {table.columns.length > 1 && (
+                        <button onClick={() => removeColumn(c)} title="Remove column" className="px-1.5 text-slate-500 hover:text-red-400 text-xs">✕</button>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <input value={column.unit} onChange={(e) => setColumn(c, { unit: e.target.value })} placeholder="Unit" className={cellClass} />
+                      <input
+                        type="number"
+                        step="any"
+                        min="0"
+                        value={column.leastCount ?? ''}
+                        onChange={(e) => setColumn(c, { leastCount: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                        placeholder="L.C."
+                        title="Least count"
+                        className={cellClass}
+                      />
+                    </div>
+                  </th>
+                ))}
+                <th className="w-8 align-top">
+                  <button onClick={addColumn} title="Add column" className="px-2 py-1.5 text-indigo-400 hover:text-indigo-300 text-sm font-bold">+</button>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, r) => (
+                <tr key={r}>
+                  <td className="text-[10px] font-mono text-slate-500 text-center">{r + 1}</td>
+                  {row.map((cell, c) => (
+                    <td key={c}>
+                      <input value={cell} onChange={(e) => setCell(r, c, e.target.value)} inputMode="decimal" className={cellClass} />
+                    </td>
+                  ))}
+                  <td>
+                    <button onClick={() => removeRow(r)} title="Remove row" className="px-2 text-slate-500 hover:text-red-400 text-xs">✕</button>
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td className="text-[10px] font-bold text-slate-500 uppercase">Mean</td>
+                {table.means.map((mean, c) => (
+                  <td key={c}>
+                    <input value={mean} onChange={(e) => setMean(c, e.target.value)} inputMode="decimal" placeholder="—" className={`${cellClass} border-dashed`} />
+                  </td>
+                ))}
+                <td />
+              </tr>
+            </tbody>
+          </table>
+          <button onClick={addRow} className="mt-1 text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest">+ Add reading</button>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="p-4 bg-slate-950 border border-slate-800 rounded-2xl space-y-2">
+            <span className={labelClass}>Graph slope</span>
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <select
+                value={table.slope?.y ?? ''}
+                onChange={(e) => setTable(prev => ({
+                  ...prev,
+                  slope: e.target.value === '' ? undefined : { x: prev.slope?.x ?? 0, value: prev.slope?.value ?? '', y: Number(e.target.value) }
+                }))}
+                className={cellClass}
+              >
+                <option value="">No graph</option>
+                {table.columns.map((column, c) => <option key={c} value={c}>{columnLabel(column, c)}</option>)}
+              </select>
+              <span>vs</span>
+              <select
+                value={table.slope?.x ?? ''}
+                disabled={!table.slope}
+                onChange={(e) => setTable(prev => prev.slope ? { ...prev, slope: { ...prev.slope, x: Number(e.target.value) } } : prev)}
+                className={cellClass}
+              >
+                {table.columns.map((column, c) => <option key={c} value={c}>{columnLabel(column, c)}</option>)}
+              </select>
+            </div>
+            <input
+              value={table.slope?.value ?? ''}
+              disabled={!table.slope}
+              onChange={(e) => setTable(prev => prev.slope ? { ...prev, slope: { ...prev.slope, value: e.target.value } } : prev)}
+              placeholder="Slope from your graph"
+              className={`${cellClass} disabled:opacity-40`}
+            />
+          </div>
+
+          <div className="p-4 bg-slate-950 border border-slate-800 rounded-2xl space-y-2">
+            <span className={labelClass}>Result</span>
+            <div className="grid grid-cols-2 gap-2">
+              <input value={table.result?.value ?? ''} onChange={(e) => setResult({ value: e.target.value })} placeholder="Value" className={cellClass} />
+              <input value={table.result?.unit ?? ''} onChange={(e) => setResult({ unit: e.target.value })} placeholder="Unit" className={cellClass} />
+              <input value={table.result?.standardValue ?? ''} onChange={(e) => setResult({ standardValue: e.target.value })} placeholder="Standard value" className={cellClass} />
+              <input value={table.result?.percentError ?? ''} onChange={(e) => setResult({ percentError: e.target.value })} placeholder="% error" className={cellClass} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSubmit(table)}
+            disabled={!canSubmit}
+            className="flex-grow px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all disabled:opacity-40 disabled:pointer-events-none"
+          >
+            Submit to Examiner
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObservationTableEditor;
@@ -0,0 +1,266 @@
+import React, { useRef, useState } from 'react';
+import { LanguageMix, Persona, PersonaStrictness } from '../types';
+import { BUILT_IN_PERSONAS, PREBUILT_VOICES } from '../data/personas';
+import { createPersonaId, downloadPersonas, isBuiltInPersona, loadCustomPersonas, parsePersonaImport, saveCustomPersonas } from '../services/personaStore';
+
+interface PersonaEditorProps {
+  onBack: () => void;
+}
+
+const STRICTNESS_LABELS: Record<PersonaStrictness, string> = {
+  [PersonaStrictness.LENIENT]: 'Lenient',
+  [PersonaStrictness.BALANCED]: 'Balanced',
+  [PersonaStrictness.STRICT]: 'Strict'
+};
+
+const LANGUAGE_LABELS: Record<LanguageMix, string> = {
+  [LanguageMix.ENGLISH]: 'English',
+  [LanguageMix.HINGLISH]: 'Hinglish',
+  [LanguageMix.HINDI]: 'Mostly Hindi'
+};
+
+const emptyDraft = (): Persona => ({
+  id: createPersonaId(),
+  label: '',
+  description: '',
+  icon: '👤',
+  instruction: '',
+  voiceName: PREBUILT_VOICES[0],
+  strictness: PersonaStrictness.BALANCED,
+  languageMix: LanguageMix.HINGLISH
+});
+
+const inputClass = "w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-indigo-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest";
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ onBack }) => {
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const persist = (next: Persona[]) => {
+    try {
+      saveCustomPersonas(next);
+      setCustomPersonas(next);
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error("Failed to save personas:", err);
+      setError("Could not save personas to this browser's storage.");
+      return false;
+    }
+  };
+
+  const updateDraft = (patch: Partial<Persona>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const startClone = (persona: Persona) => setDraft({ ...persona, id: createPersonaId(), label: `${persona.label} (copy)` });
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const exists = customPersonas.some(p => p.id === draft.id);
+    const saved = { ...draft, label: draft.label.trim(), instruction: draft.instruction.trim() };
+    if (persist(exists ? customPersonas.map(p => p.id === saved.id ? saved : p) : [...customPersonas, saved])) {
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!window.confirm(`Delete the examiner "${persona.label}"? This cannot be undone.`)) return;
+    persist(customPersonas.filter(p => p.id !== persona.id));
+    if (draft?.id === persona.id) setDraft(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      persist([...customPersonas, ...parsePersonaImport(await file.text())]);
+    } catch (err) {
+      console.error("Persona import failed:", err);
+      setError(err instanceof Error ? err.message : "Could not import the personas.");
+    }
+  };
+
+  const canSave = !!draft && draft.label.trim() !== '' && draft.instruction.trim() !== '';
+
+  const personaRow = (persona: Persona) => {
+    const isBuiltIn = isBuiltInPersona(persona.id);
+    return (
+      <div
+        key={persona.id}
+        className={`p-4 bg-slate-900 border rounded-2xl flex items-center gap-4 ${draft?.id === persona.id ? 'border-indigo-500' : 'border-slate-800'}`}
+      >
+        <span className="text-3xl">{persona.icon}</span>
+        <div className="flex-grow min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="font-bold text-slate-100 truncate">{persona.label}</h3>
+            {isBuiltIn && <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Built-in</span>}
+          </div>
+          <p className="text-xs text-slate-500 truncate">
+            {persona.voiceName} • {STRICTNESS_LABELS[persona.strictness ?? PersonaStrictness.BALANCED]} • {LANGUAGE_LABELS[persona.languageMix ?? LanguageMix.HINGLISH]}
+          </p>
+        </div>
+        <div className="flex gap-3 flex-shrink-0">
+          {!isBuiltIn && (
+            <button onClick={() => setDraft(persona)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest">Edit</button>
+          )}
+          <button onClick={() => startClone(persona)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest">Clone</button>
+          {!isBuiltIn && (
+            <button onClick={() => handleDelete(persona)} className="text-[10px] font-bold text-red-400 hover:text-red-300 uppercase tracking-widest">Delete</button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl w-full space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500 px-4 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="space-y-2">
+          <div className="inline-block px-3 py-1 rounded-full bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 text-xs font-bold uppercase tracking-wider">
+            Examiner Personas
+          </div>
+          <h2 className="text-3xl font-extrabold tracking-tight">Define your own examiners</h2>
+          <p className="text-slate-400 text-sm">Custom examiners are saved in this browser and appear alongside the built-in ones.</p>
+        </div>
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-700"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => downloadPersonas(customPersonas)}
+            disabled={customPersonas.length === 0}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-700 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => setDraft(emptyDraft())}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold text-sm transition-all"
+          >
+            New Examiner
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="grid lg:grid-cols-2 gap-6 items-start">
+        <div className="space-y-3">
+          {BUILT_IN_PERSONAS.map(personaRow)}
+          {customPersonas.map(personaRow)}
+        </div>
+
+        {draft ? (
+          <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl space-y-4">
+            <div className="grid grid-cols-[5rem_1fr] gap-3">
+              <div className="space-y-1">
+                <label className={labelClass}>Avatar</label>
+                <input
+                  value={draft.icon}
+                  onChange={(e) => updateDraft({ icon: e.target.value })}
+                  maxLength={4}
+                  className={`${inputClass} text-center text-xl`}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Name</label>
+                <input
+                  value={draft.label}
+                  onChange={(e) => updateDraft({ label: e.target.value })}
+                  placeholder="e.g. Dr. Mehta"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <label className={labelClass}>Voice</label>
+                <select value={draft.voiceName} onChange={(e) => updateDraft({ voiceName: e.target.value })} className={inputClass}>
+                  {PREBUILT_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Strictness</label>
+                <select
+                  value={draft.strictness ?? PersonaStrictness.BALANCED}
+                  onChange={(e) => updateDraft({ strictness: e.target.value as PersonaStrictness })}
+                  className={inputClass}
+                >
+                  {(Object.values(PersonaStrictness) as PersonaStrictness[]).map(s => <option key={s} value={s}>{STRICTNESS_LABELS[s]}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Language</label>
+                <select
+                  value={draft.languageMix ?? LanguageMix.HINGLISH}
+                  onChange={(e) => updateDraft({ languageMix: e.target.value as LanguageMix })}
+                  className={inputClass}
+                >
+                  {(Object.values(LanguageMix) as LanguageMix[]).map(l => <option key={l} value={l}>{LANGUAGE_LABELS[l]}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Short description</label>
+              <input
+                value={draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder="Shown to candidates when they pick an examiner"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Instruction</label>
+              <textarea
+                value={draft.instruction}
+                onChange={(e) => updateDraft({ instruction: e.target.value })}
+                rows={6}
+                placeholder="You are Dr. Mehta. You ..."
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveDraft}
+                disabled={!canSave}
+                className="flex-grow px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all disabled:opacity-40 disabled:pointer-events-none"
+              >
+                Save Examiner
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 bg-slate-900/50 border border-dashed border-slate-800 rounded-2xl text-center text-sm text-slate-500">
+            Create a new examiner, or clone a built-in one to start from its instruction.
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+      >
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default PersonaEditor;
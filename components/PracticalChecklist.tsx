@@ -0,0 +1,50 @@
+import React from 'react';
+import { ChecklistCategory, ChecklistItem } from '../types';
+import { findExperiment } from '../data/syllabus';
+import { CHECKLIST_CATEGORY_LABELS } from '../data/practicals';
+
+interface PracticalChecklistProps {
+  experimentId: string;
+  items: ChecklistItem[];
+}
+
+/** What a practical viva covered, grouped into the standard points, apparatus and concepts. */
+const PracticalChecklist: React.FC<PracticalChecklistProps> = ({ experimentId, items }) => {
+  const addressed = items.filter(item => item.addressed).length;
+  const title = findExperiment(experimentId)?.experiment.title ?? experimentId;
+
+  return (
+    <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div className="space-y-1">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Practical Checklist</h3>
+          <p className="text-sm font-bold text-slate-200">{title}</p>
+        </div>
+        <span className="font-mono font-bold text-sm text-indigo-400 whitespace-nowrap">{addressed}/{items.length} addressed</span>
+      </div>
+      <div className="grid md:grid-cols-3 gap-4">
+        {(Object.keys(CHECKLIST_CATEGORY_LABELS) as ChecklistCategory[]).map(category => {
+          const group = items.filter(item => item.category === category);
+          if (group.length === 0) return null;
+          return (
+            <div key={category} className="space-y-2">
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{CHECKLIST_CATEGORY_LABELS[category]}</h4>
+              <ul className="space-y-1.5">
+                {group.map(item => (
+                  <li key={item.id} className="flex items-start gap-2 text-xs" title={item.evidence}>
+                    <span className={`flex-shrink-0 font-bold ${item.addressed ? 'text-green-400' : 'text-red-400'}`}>
+                      {item.addressed ? '✓' : '✗'}
+                    </span>
+                    <span className={item.addressed ? 'text-slate-300' : 'text-slate-500'}>{item.label}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PracticalChecklist;
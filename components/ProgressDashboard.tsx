@@ -0,0 +1,218 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExamAttempt, ClassLevel, DifficultyLevel } from '../types';
+import { listAttempts } from '../services/sessionStore';
+import { buildScoreSeries, analyseUnits, countRemarks, gradedAttempts } from '../utils/progress';
+
+interface ProgressDashboardProps {
+  onBack: () => void;
+}
+
+const DIFFICULTY_COLORS: Record<DifficultyLevel, string> = {
+  [DifficultyLevel.EASY]: '#4ade80',
+  [DifficultyLevel.MEDIUM]: '#818cf8',
+  [DifficultyLevel.HARD]: '#f87171'
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 28;
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onBack }) => {
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedClass, setSelectedClass] = useState<ClassLevel>(ClassLevel.XII);
+
+  useEffect(() => {
+    listAttempts()
+      .then((loaded) => {
+        setAttempts(loaded);
+        if (loaded.length > 0) setSelectedClass(loaded[0].classLevel);
+      })
+      .catch((error) => {
+        console.error("Failed to load attempt history:", error);
+        setLoadError("Could not read the local attempt archive.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const classAttempts = useMemo(() => gradedAttempts(attempts).filter(a => a.classLevel === selectedClass), [attempts, selectedClass]);
+  const ungradedCount = attempts.filter(a => a.classLevel === selectedClass).length - classAttempts.length;
+  const series = useMemo(() => buildScoreSeries(classAttempts), [classAttempts]);
+  const units = useMemo(() => analyseUnits(attempts, selectedClass), [attempts, selectedClass]);
+  const recurringWeaknesses = useMemo(() => countRemarks(classAttempts.flatMap(a => a.stats.weaknesses)), [classAttempts]);
+  const recurringStrengths = useMemo(() => countRemarks(classAttempts.flatMap(a => a.stats.strengths)), [classAttempts]);
+
+  const averageScore = classAttempts.length > 0
+    ? Math.round(classAttempts.reduce((sum, a) => sum + a.stats.score, 0) / classAttempts.length)
+    : null;
+  const bestScore = classAttempts.length > 0 ? Math.max(...classAttempts.map(a => a.stats.score)) : null;
+
+  const timestamps = classAttempts.map(a => a.startedAt);
+  const minTime = Math.min(...timestamps);
+  const timeSpan = Math.max(...timestamps) - minTime;
+  const toX = (t: number) => timeSpan > 0
+    ? CHART_PADDING + ((t - minTime) / timeSpan) * (CHART_WIDTH - CHART_PADDING * 2)
+    : CHART_WIDTH / 2;
+  const toY = (score: number) => CHART_HEIGHT - CHART_PADDING - (score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <div className="max-w-4xl w-full bg-slate-900 border border-slate-800 rounded-3xl p-6 md:p-8 space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700 shadow-2xl">
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-extrabold text-white">Progress Dashboard</h2>
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">Trends across saved attempts</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-700"
+        >
+          Back
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {(Object.values(ClassLevel) as ClassLevel[]).map((level) => (
+          <button
+            key={level}
+            onClick={() => setSelectedClass(level)}
+            className={`p-3 rounded-xl border text-sm font-bold transition-all ${
+              selectedClass === level
+                ? "bg-indigo-600 text-white border-indigo-400 shadow-lg shadow-indigo-900/20"
+                : "bg-slate-900/50 border-slate-800 text-slate-400 hover:border-slate-700"
+            }`}
+          >
+            Class {level}
+          </button>
+        ))}
+      </div>
+
+      {loadError && (
+        <div className="text-xs font-bold text-red-400 bg-red-900/20 px-3 py-2 rounded-xl border border-red-900/40">
+          {loadError}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-16 flex justify-center">
+          <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : classAttempts.length === 0 ? (
+        <p className="py-16 text-center text-xs font-mono uppercase tracking-widest text-slate-600">
+          {ungradedCount > 0
+            ? `No graded Class ${selectedClass} attempts yet — retry the ${ungradedCount} failed evaluation${ungradedCount === 1 ? '' : 's'} from Past Attempts`
+            : `No Class ${selectedClass} attempts recorded yet`}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {ungradedCount > 0 && (
+            <p className="text-xs text-amber-400">
+              {ungradedCount} attempt{ungradedCount === 1 ? ' is' : 's are'} left out because the evaluation failed. Retry {ungradedCount === 1 ? 'it' : 'them'} from Past Attempts.
+            </p>
+          )}
+          <div className="grid grid-cols-3 gap-4 text-left">
+            <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+              <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Attempts</span>
+              <span className="text-3xl font-bold text-white">{classAttempts.length}</span>
+            </div>
+            <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+              <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Average</span>
+              <span className="text-3xl font-bold text-indigo-400">{averageScore}%</span>
+            </div>
+            <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+              <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Best</span>
+              <span className="text-3xl font-bold text-green-400">{bestScore}%</span>
+            </div>
+          </div>
+
+          <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Score Over Time</h3>
+              <div className="flex gap-4">
+                {series.map(s => (
+                  <span key={s.difficulty} className="flex items-center space-x-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIFFICULTY_COLORS[s.difficulty] }} />
+                    <span>{s.difficulty}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+              {[0, 25, 50, 75, 100].map(tick => (
+                <g key={tick}>
+                  <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={toY(tick)} y2={toY(tick)} stroke="#1e293b" strokeWidth={1} />
+                  <text x={CHART_PADDING - 6} y={toY(tick) + 3} textAnchor="end" fontSize={9} fill="#64748b">{tick}</text>
+                </g>
+              ))}
+              {series.map(s => (
+                <g key={s.difficulty}>
+                  <polyline
+                    fill="none"
+                    stroke={DIFFICULTY_COLORS[s.difficulty]}
+                    strokeWidth={2}
+                    points={s.points.map(p => `${toX(p.timestamp)},${toY(p.score)}`).join(' ')}
+                  />
+                  {s.points.map(p => (
+                    <circle key={p.attemptId} cx={toX(p.timestamp)} cy={toY(p.score)} r={3.5} fill={DIFFICULTY_COLORS[s.difficulty]}>
+                      <title>{`${new Date(p.timestamp).toLocaleString()} • ${p.score}%`}</title>
+                    </circle>
+                  ))}
+                </g>
+              ))}
+            </svg>
+          </div>
+
+          <div className="space-y-3 text-left">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">Syllabus Units</h3>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {units.map(u => (
+                <div
+                  key={u.unit}
+                  className={`p-3 rounded-xl border flex items-center justify-between ${
+                    u.isWeak ? 'bg-red-500/10 border-red-500/40' : 'bg-slate-800/40 border-slate-700/50'
+                  }`}
+                >
+                  <div>
+                    <p className={`text-sm font-bold ${u.isWeak ? 'text-red-300' : 'text-slate-200'}`}>{u.unit}</p>
+                    <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest">
+                      Asked {u.covered}× • Flagged weak {u.flagged}×
+                    </p>
+                  </div>
+                  <span className={`font-mono font-bold text-sm ${u.isWeak ? 'text-red-400' : 'text-indigo-400'}`}>
+                    {u.averageScore !== null ? `${u.averageScore}%` : '—'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6 p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left">
+            <div className="space-y-2">
+              <h4 className="text-[10px] font-bold text-green-500 uppercase tracking-widest">Recurring Strengths</h4>
+              <ul className="text-xs text-slate-400 space-y-1">
+                {recurringStrengths.map(r => <li key={r.text} className="flex items-center space-x-2">
+                  <span className="w-1 h-1 bg-green-500 rounded-full" />
+                  <span>{r.text}</span>
+                  {r.count > 1 && <span className="text-slate-600 font-mono">×{r.count}</span>}
+                </li>)}
+              </ul>
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-[10px] font-bold text-red-500 uppercase tracking-widest">Recurring Weaknesses</h4>
+              <ul className="text-xs text-slate-400 space-y-1">
+                {recurringWeaknesses.map(r => <li key={r.text} className="flex items-center space-x-2">
+                  <span className="w-1 h-1 bg-red-500 rounded-full" />
+                  <span>{r.text}</span>
+                  {r.count > 1 && <span className="text-slate-600 font-mono">×{r.count}</span>}
+                </li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,135 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionRecording, TranscriptionEntry } from '../types';
+import { recordingIndexAt } from '../utils/sessionRecorder';
+
+interface RecordingPlayerProps {
+  /** In order; a resumed viva has one per stretch between drops. */
+  recordings: SessionRecording[];
+  transcript: TranscriptionEntry[];
+}
+
+const formatOffset = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ recordings, transcript }) => {
+  const [segment, setSegment] = useState(0);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [playheadMs, setPlayheadMs] = useState(0);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeRef = useRef<HTMLLIElement>(null);
+  // Seek target (seconds) applied once a newly selected segment has loaded.
+  const pendingSeekRef = useRef<number | null>(null);
+  const recording = recordings[segment] ?? recordings[0];
+
+  useEffect(() => {
+    const url = URL.createObjectURL(recording.blob);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording.blob]);
+
+  // Entries are stamped when their turn began, so the active line is the last one in this segment that has started.
+  let activeIndex = -1;
+  transcript.forEach((entry, i) => {
+    if (recordingIndexAt(recordings, entry.timestamp) === segment && entry.timestamp - recording.startedAt <= playheadMs) activeIndex = i;
+  });
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  // play() rejects when autoplay is blocked or the blob cannot be decoded; the player is left paused.
+  const play = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.play().catch((err) => {
+      console.error("Recording playback failed:", err);
+      audio.pause();
+      setPlaybackError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? 'The browser blocked playback. Press play to listen from here.'
+        : 'This recording could not be played in this browser.');
+    });
+  };
+
+  const seekTo = (entry: TranscriptionEntry) => {
+    const target = recordingIndexAt(recordings, entry.timestamp);
+    const seconds = Math.max(0, (entry.timestamp - recordings[target].startedAt) / 1000);
+    if (target !== segment) {
+      pendingSeekRef.current = seconds;
+      setPlayheadMs(0);
+      setSegment(target);
+      return;
+    }
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    play();
+  };
+
+  const handleLoaded = () => {
+    if (!audioRef.current || pendingSeekRef.current === null) return;
+    audioRef.current.currentTime = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    play();
+  };
+
+  return (
+    <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Session Recording</h3>
+        {recordings.length > 1 && (
+          <div className="flex gap-1">
+            {recordings.map((r, i) => (
+              <button
+                key={r.startedAt}
+                onClick={() => {
+                  setPlayheadMs(0);
+                  setSegment(i);
+                }}
+                title={`Recorded from ${new Date(r.startedAt).toLocaleTimeString()}`}
+                className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest border transition-all ${
+                  i === segment ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-700'
+                }`}
+              >
+                Part {i + 1}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          className="w-full"
+          onLoadedMetadata={handleLoaded}
+          onPlay={() => setPlaybackError(null)}
+          onError={() => setPlaybackError('This recording could not be played in this browser.')}
+          onTimeUpdate={(e) => setPlayheadMs(e.currentTarget.currentTime * 1000)}
+        />
+      )}
+      {playbackError && <p className="text-xs text-amber-400">{playbackError}</p>}
+      <ul className="max-h-64 overflow-y-auto space-y-1 pr-1">
+        {transcript.map((entry, i) => (
+          <li
+            key={i}
+            ref={i === activeIndex ? activeRef : undefined}
+            onClick={() => seekTo(entry)}
+            className={`p-2 rounded-lg text-xs cursor-pointer transition-all flex gap-3 ${
+              i === activeIndex ? 'bg-indigo-600/20 border border-indigo-500/40 text-white' : 'text-slate-400 hover:bg-slate-800/60 border border-transparent'
+            }`}
+          >
+            <span className="font-mono text-slate-500 flex-shrink-0">{formatOffset(entry.timestamp - recordings[recordingIndexAt(recordings, entry.timestamp)].startedAt)}</span>
+            <span className="font-bold flex-shrink-0">{entry.senderName}:</span>
+            <span>{entry.text}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
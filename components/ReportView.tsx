@@ -0,0 +1,282 @@
+
+import React from 'react';
+import { ExamAttempt, ExamMode } from '../types';
+import { describeTopic } from '../data/syllabus';
+import { formatSessionId, formatPauseSummary, printReport, downloadReportHtml } from '../utils/reportExport';
+import { downloadTranscript, TranscriptFormat } from '../utils/transcriptExport';
+import RecordingPlayer from './RecordingPlayer';
+import { attemptRecordings } from '../utils/sessionRecorder';
+import DifficultyTrajectory from './DifficultyTrajectory';
+import PracticalChecklist from './PracticalChecklist';
+import ObservationReview from './ObservationReview';
+import DiagramReview from './DiagramReview';
+import IntegrityReport from './IntegrityReport';
+import { examinerSubScores, isGraded } from '../utils/scoring';
+
+const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' }
+];
+
+interface ReportViewProps {
+  attempt: ExamAttempt;
+  onClose: () => void;
+  closeLabel?: string;
+}
+
+const ReportView: React.FC<ReportViewProps> = ({ attempt, onClose, closeLabel = 'Return to Dashboard' }) => {
+  const { stats } = attempt;
+  const pauseSummary = formatPauseSummary(attempt.pauses);
+  const recordings = attemptRecordings(attempt);
+  const subScores = attempt.panel ? examinerSubScores(attempt.panel, attempt.questions ?? []) : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="absolute top-0 left-0 w-full h-1.5 bg-indigo-500"></div>
+      <div className="flex flex-col items-center space-y-4">
+        <div className="w-20 h-20 bg-indigo-500/10 rounded-full flex items-center justify-center shadow-lg shadow-indigo-500/5">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </div>
+        <div className="space-y-1">
+          <h2 className="text-3xl font-extrabold text-white">Board Evaluation Report</h2>
+          <p className="text-slate-400 text-sm">Session ID: <span className="font-mono">{formatSessionId(attempt.id)}</span></p>
+          <p className="text-slate-500 text-xs">
+            {new Date(attempt.startedAt).toLocaleString()} • Examined by {attempt.personaLabel}
+            {attempt.mode === ExamMode.TEXT && ' • Typed viva'}
+            {pauseSummary && ` • ${pauseSummary}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-left">
+        <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+          <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Final Grade</span>
+          <span className="text-3xl font-bold text-indigo-400">{isGraded(stats) ? stats.grade : '—'}</span>
+        </div>
+        <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+          <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Class</span>
+          <span className="text-3xl font-bold text-white">{attempt.classLevel}</span>
+        </div>
+        <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+          <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Score</span>
+          <span className="text-3xl font-bold text-green-400">{isGraded(stats) ? `${stats.score}%` : '—'}</span>
+        </div>
+        <div className="p-4 bg-slate-800/40 rounded-2xl border border-slate-700/50">
+          <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1 tracking-widest">Duration</span>
+          <span className="text-3xl font-bold text-white">{Math.floor(attempt.durationSeconds / 60)}m</span>
+        </div>
+      </div>
+
+      {stats.criteria && stats.criteria.length > 0 && (
+        <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Criterion Breakdown</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                  <th className="py-2 pr-4 font-bold">Criterion</th>
+                  <th className="py-2 pr-4 font-bold text-right">Weight</th>
+                  <th className="py-2 pr-4 font-bold text-right">Marks</th>
+                  <th className="py-2 font-bold">Justification</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.criteria.map((c) => (
+                  <tr key={c.criterionId} className="border-b border-slate-800/60 align-top">
+                    <td className="py-3 pr-4 font-bold text-slate-200 whitespace-nowrap">{c.label}</td>
+                    <td className="py-3 pr-4 text-right font-mono text-slate-500">{c.weight}</td>
+                    <td className="py-3 pr-4 text-right font-mono font-bold text-indigo-400 whitespace-nowrap">{c.marks}/{c.maxMarks}</td>
+                    <td className="py-3 text-slate-400 space-y-2">
+                      <p>{c.justification}</p>
+                      {c.evidence.map((quote, i) => (
+                        <p key={i} className="italic text-slate-500 border-l-2 border-slate-700 pl-2">"{quote}"</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {subScores.length > 0 && (
+        <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Panel Sub-scores</h3>
+          <div className={`grid gap-3 ${subScores.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {subScores.map(({ examiner, questionCount, marks, maxMarks, percent }) => (
+              <div key={examiner.id} className="p-4 bg-slate-900 border border-slate-800 rounded-xl flex items-center gap-3">
+                <span className="text-2xl">{examiner.icon}</span>
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm font-bold text-slate-200 truncate">{examiner.label}</p>
+                  <p className="text-[10px] text-slate-500 uppercase tracking-widest">
+                    {questionCount} question{questionCount === 1 ? '' : 's'}{maxMarks > 0 && ` • ${marks}/${maxMarks}`}
+                  </p>
+                </div>
+                <span className="font-mono font-bold text-lg text-indigo-400">{percent === null ? '—' : `${percent}%`}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {stats.evaluationFailed ? (
+        <div className="p-6 bg-red-900/20 border border-red-900/40 rounded-2xl text-left space-y-2">
+          <h3 className="text-xs font-bold text-red-400 uppercase tracking-widest">Evaluation Failed</h3>
+          <p className="text-sm text-slate-300 leading-relaxed">{stats.feedback}</p>
+        </div>
+      ) : (
+        <div className="p-6 bg-slate-950 border border-slate-800 rounded-2xl text-left space-y-4">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Examiner Feedback</h3>
+          <p className="text-sm text-slate-300 leading-relaxed italic border-l-2 border-indigo-500 pl-4">
+            "{stats.feedback}"
+          </p>
+
+          <div className="grid md:grid-cols-2 gap-6 pt-2">
+            <div className="space-y-2">
+              <h4 className="text-[10px] font-bold text-green-500 uppercase tracking-widest">Strengths</h4>
+              <ul className="text-xs text-slate-400 space-y-1">
+                {stats.strengths.map((s, i) => <li key={i} className="flex items-center space-x-2">
+                  <span className="w-1 h-1 bg-green-500 rounded-full" />
+                  <span>{s}</span>
+                </li>)}
+              </ul>
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-[10px] font-bold text-red-500 uppercase tracking-widest">Areas for Improvement</h4>
+              <ul className="text-xs text-slate-400 space-y-1">
+                {stats.weaknesses.map((w, i) => <li key={i} className="flex items-center space-x-2">
+                  <span className="w-1 h-1 bg-red-500 rounded-full" />
+                  <span>{w}</span>
+                </li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3 text-left">
+        <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">Syllabus Coverage</h3>
+        <div className="flex flex-wrap gap-2">
+          {stats.topicsCovered.map((topic, i) => (
+            <span
+              key={i}
+              title={topic}
+              className={`px-3 py-1 border rounded-full text-[10px] ${
+                stats.weakChapters?.includes(topic)
+                  ? 'bg-red-500/10 border-red-500/40 text-red-300'
+                  : 'bg-slate-800 border-slate-700 text-indigo-300'
+              }`}
+            >
+              {describeTopic(topic)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {attempt.experimentId && attempt.checklist && attempt.checklist.length > 0 && (
+        <PracticalChecklist experimentId={attempt.experimentId} items={attempt.checklist} />
+      )}
+
+      {attempt.observations && <ObservationReview record={attempt.observations} />}
+
+      <DiagramReview transcript={attempt.transcript} />
+
+      {attempt.difficultyTrajectory && attempt.difficultyTrajectory.length > 0 && (
+        <DifficultyTrajectory points={attempt.difficultyTrajectory} />
+      )}
+
+      {attempt.integrity && <IntegrityReport log={attempt.integrity} endedAt={attempt.endedAt} />}
+
+      {attempt.questions && attempt.questions.length > 0 && (
+        <div className="space-y-3 text-left">
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">Question-by-Question Review</h3>
+          {attempt.questions.map((q, i) => (
+            <div key={i} className="p-5 bg-slate-950 border border-slate-800 rounded-2xl space-y-3">
+              <div className="flex justify-between items-start gap-4">
+                <div className="space-y-1">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    Q{i + 1} • {describeTopic(q.chapterId)}
+                    {attempt.panel && q.examinerId && ` • ${attempt.panel.find(p => p.id === q.examinerId)?.label ?? ''}`}
+                    {q.askedAt && ` • ${new Date(q.askedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  </span>
+                  <p className="text-sm font-bold text-slate-200">{q.question}</p>
+                </div>
+                <span className={`font-mono font-bold text-sm whitespace-nowrap ${
+                  q.marks / q.maxMarks >= 0.7 ? 'text-green-400' : q.marks / q.maxMarks >= 0.4 ? 'text-indigo-400' : 'text-red-400'
+                }`}>
+                  {q.marks}/{q.maxMarks}
+                </span>
+              </div>
+              <div className="grid md:grid-cols-2 gap-3">
+                <div className="p-3 bg-indigo-600/10 border border-indigo-500/20 rounded-xl space-y-1">
+                  <h4 className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Your Answer</h4>
+                  <p className="text-xs text-slate-300 leading-relaxed">{q.candidateAnswer || <span className="italic text-slate-500">No answer given</span>}</p>
+                </div>
+                <div className="p-3 bg-green-500/5 border border-green-500/20 rounded-xl space-y-1">
+                  <h4 className="text-[10px] font-bold text-green-500 uppercase tracking-widest">Ideal Answer</h4>
+                  <p className="text-xs text-slate-300 leading-relaxed">{q.idealAnswer}</p>
+                </div>
+              </div>
+              {q.followUps.length > 0 && (
+                <ul className="text-xs text-slate-400 space-y-1 border-l-2 border-slate-800 pl-3">
+                  {q.followUps.map((f, j) => (
+                    <li key={j}>
+                      <span className="text-slate-300 font-bold">{f.question}</span> — {f.answer || <span className="italic">no answer</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-[11px] text-slate-500 italic">{q.comment}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recordings.length > 0 && (
+        <RecordingPlayer recordings={recordings} transcript={attempt.transcript} />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-left">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1 mr-2">Export Transcript</span>
+        {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => downloadTranscript(attempt, format)}
+            disabled={attempt.transcript.length === 0}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg font-bold text-xs transition-all border border-slate-700 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          onClick={() => printReport(attempt)}
+          className="flex-grow py-4 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold transition-all border border-slate-700"
+        >
+          {isGraded(stats) ? 'Print Official Certificate' : 'Print Report'}
+        </button>
+        <button
+          onClick={() => downloadReportHtml(attempt)}
+          className="flex-grow py-4 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold transition-all border border-slate-700"
+        >
+          Download Report
+        </button>
+        <button
+          onClick={onClose}
+          className="flex-grow py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-600/20"
+        >
+          {closeLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportView;
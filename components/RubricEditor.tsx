@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { GradeBand, Rubric, RubricCriterion } from '../types';
+import { DEFAULT_RUBRIC } from '../data/rubric';
+import { isDefaultRubric, loadRubric, resetRubric, saveRubric, validateRubric } from '../services/rubricStore';
+
+interface RubricEditorProps {
+  onBack: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-indigo-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest";
+
+/** Edits the criteria, weights, maximum marks and grade bands that reports are graded against. */
+const RubricEditor: React.FC<RubricEditorProps> = ({ onBack }) => {
+  const [saved, setSaved] = useState<Rubric>(loadRubric);
+  const [draft, setDraft] = useState<Rubric>(saved);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const update = (patch: Partial<Rubric>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setNotice(null);
+  };
+
+  const setCriterion = (index: number, patch: Partial<RubricCriterion>) =>
+    update({ criteria: draft.criteria.map((c, i) => i === index ? { ...c, ...patch } : c) });
+
+  const setBand = (index: number, patch: Partial<GradeBand>) =>
+    update({ gradeBands: draft.gradeBands.map((b, i) => i === index ? { ...b, ...patch } : b) });
+
+  const totalWeight = draft.criteria.reduce((sum, c) => sum + (Number.isFinite(c.weight) ? c.weight : 0), 0);
+  const problem = validateRubric(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const handleSave = () => {
+    try {
+      const next = saveRubric(draft);
+      setSaved(next);
+      setDraft(next);
+      setError(null);
+      setNotice('Saved. New reports are graded against this rubric.');
+    } catch (err) {
+      console.error("Failed to save rubric:", err);
+      setError(err instanceof Error ? err.message : "Could not save the rubric to this browser's storage.");
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Discard your rubric and go back to the board default?')) return;
+    const next = resetRubric();
+    setSaved(next);
+    setDraft(next);
+    setError(null);
+    setNotice('Back to the board default rubric.');
+  };
+
+  return (
+    <div className="max-w-4xl w-full space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500 px-4 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="space-y-2">
+          <div className="inline-block px-3 py-1 rounded-full bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 text-xs font-bold uppercase tracking-wider">
+            Marking Rubric
+          </div>
+          <h2 className="text-3xl font-extrabold tracking-tight">How vivas are graded</h2>
+          <p className="text-slate-400 text-sm">
+            Saved in this browser. Reports already archived keep the marks they were given.
+            {isDefaultRubric(saved) ? ' Currently using the board default.' : ''}
+          </p>
+        </div>
+        <button
+          onClick={handleReset}
+          disabled={isDefaultRubric(saved) && !isDirty}
+          className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-700 disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Reset to Board Default
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl space-y-1">
+        <label className={labelClass}>Name</label>
+        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder={DEFAULT_RUBRIC.name} className={inputClass} />
+      </div>
+
+      <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className={labelClass}>Criteria</h3>
+          <span className="text-[10px] font-mono text-slate-500">Total weight {totalWeight}</span>
+        </div>
+        {draft.criteria.map((criterion, i) => (
+          <div key={criterion.id} className="grid grid-cols-[1fr_5rem_5rem_auto] gap-3 items-start">
+            <div className="space-y-2">
+              <input value={criterion.label} onChange={(e) => setCriterion(i, { label: e.target.value })} placeholder="Criterion" className={inputClass} />
+              <input
+                value={criterion.description}
+                onChange={(e) => setCriterion(i, { description: e.target.value })}
+                placeholder="What the examiner looks for"
+                className={`${inputClass} text-xs`}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Weight</label>
+              <input
+                type="number"
+                min="0"
+                value={Number.isFinite(criterion.weight) ? criterion.weight : ''}
+                onChange={(e) => setCriterion(i, { weight: e.target.value === '' ? NaN : Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Out of</label>
+              <input
+                type="number"
+                min="1"
+                value={Number.isFinite(criterion.maxMarks) ? criterion.maxMarks : ''}
+                onChange={(e) => setCriterion(i, { maxMarks: e.target.value === '' ? NaN : Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <button
+              onClick={() => update({ criteria: draft.criteria.filter((_, j) => j !== i) })}
+              disabled={draft.criteria.length <= 1}
+              title="Remove criterion"
+              className="pt-2 text-slate-500 hover:text-red-400 text-xs disabled:opacity-30"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ criteria: [...draft.criteria, { id: `criterion-${Date.now().toString(36)}`, label: '', description: '', weight: 10, maxMarks: 10 }] })}
+          className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest"
+        >
+          + Add criterion
+        </button>
+      </div>
+
+      <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl space-y-4">
+        <h3 className={labelClass}>Grade bands</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {draft.gradeBands.map((band, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input value={band.grade} onChange={(e) => setBand(i, { grade: e.target.value })} placeholder="Grade" className={`${inputClass} w-16 text-center font-bold`} />
+              <span className="text-xs text-slate-500">≥</span>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={Number.isFinite(band.minPercent) ? band.minPercent : ''}
+                onChange={(e) => setBand(i, { minPercent: e.target.value === '' ? NaN : Number(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+              <span className="text-xs text-slate-500">%</span>
+              <button
+                onClick={() => update({ gradeBands: draft.gradeBands.filter((_, j) => j !== i) })}
+                disabled={draft.gradeBands.length <= 1}
+                title="Remove band"
+                className="text-slate-500 hover:text-red-400 text-xs disabled:opacity-30"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => update({ gradeBands: [...draft.gradeBands, { grade: '', minPercent: 0 }] })}
+          className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest"
+        >
+          + Add band
+        </button>
+      </div>
+
+      {problem && <p className="text-xs text-amber-400">{problem}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={onBack}
+          className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all border border-slate-700"
+        >
+          Back
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!!problem || !isDirty}
+          className="flex-grow px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Save Rubric
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
@@ -1,16 +1,74 @@
 
 import React, { useState } from 'react';
-import { DifficultyLevel, ClassLevel } from '../types';
+import { DifficultyLevel, ClassLevel, ExamMode, ExamSettings, InputMode, VisionProfile } from '../types';
+import { SYLLABUS_UNITS, getAllUnitIds, findExperiment } from '../data/syllabus';
+import { getPracticalGuide } from '../data/practicals';
+import { FRAME_PROFILES } from '../utils/frameStreaming';
+import { findPersona, getAllPersonas } from '../services/personaStore';
+
+// Each panel member holds its own live session, so the panel is kept small.
+const PANEL_MAX_EXAMINERS = 3;
 
 interface WelcomeScreenProps {
-  onStart: (difficulty: DifficultyLevel, durationMinutes: number, classLevel: ClassLevel) => void;
+  onStart: (settings: ExamSettings) => void;
   onInstall?: () => void;
+  onShowHistory?: () => void;
+  onShowDashboard?: () => void;
+  onManagePersonas?: () => void;
+  onManageRubric?: () => void;
+  initialPersonaId?: string;
+  /** Choices to restore, e.g. when the candidate comes back from the device check. */
+  initialSettings?: ExamSettings;
 }
 
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) => {
-  const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel>(DifficultyLevel.MEDIUM);
-  const [selectedDuration, setSelectedDuration] = useState<number>(15);
-  const [selectedClass, setSelectedClass] = useState<ClassLevel>(ClassLevel.XII);
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall, onShowHistory, onShowDashboard, onManagePersonas, onManageRubric, initialPersonaId, initialSettings: initial }) => {
+  const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel>(initial?.difficulty ?? DifficultyLevel.MEDIUM);
+  const [selectedDuration, setSelectedDuration] = useState<number>(initial?.durationMinutes ?? 15);
+  const [selectedClass, setSelectedClass] = useState<ClassLevel>(initial?.classLevel ?? ClassLevel.XII);
+  // A practical viva narrows the units to its experiment's, so switching back to theory starts from every unit.
+  const [selectedUnitIds, setSelectedUnitIds] = useState<string[]>(() =>
+    initial && !initial.experimentId ? initial.syllabusUnitIds : getAllUnitIds(initial?.classLevel ?? ClassLevel.XII));
+  const [selectedMode, setSelectedMode] = useState<ExamMode>(initial?.mode ?? ExamMode.VOICE);
+  const [speakReplies, setSpeakReplies] = useState(initial?.speakReplies ?? false);
+  const [selectedInputMode, setSelectedInputMode] = useState<InputMode>(initial?.inputMode ?? InputMode.CONTINUOUS);
+  // Text vivas are started with vision off, which is not the candidate's choice of profile.
+  const [visionProfile, setVisionProfile] = useState<VisionProfile>(
+    initial?.mode === ExamMode.VOICE ? initial.visionProfile : VisionProfile.STANDARD);
+  const [adaptiveDifficulty, setAdaptiveDifficulty] = useState(initial?.adaptiveDifficulty ?? false);
+  const [personas] = useState(getAllPersonas);
+  const [selectedPersonaId, setSelectedPersonaId] = useState(() => findPersona(initial?.personaId ?? initialPersonaId, personas).id);
+  // Practical viva on one experiment; empty for a theory viva.
+  const [isPractical, setIsPractical] = useState(!!initial?.experimentId);
+  const [experimentId, setExperimentId] = useState(initial?.experimentId ?? '');
+  const [isPanel, setIsPanel] = useState(!!initial?.panelPersonaIds);
+  // In selection order; the first member leads the viva.
+  const [panelPersonaIds, setPanelPersonaIds] = useState<string[]>(initial?.panelPersonaIds ?? []);
+
+  const selectClass = (level: ClassLevel) => {
+    setSelectedClass(level);
+    setSelectedUnitIds(getAllUnitIds(level));
+    setExperimentId('');
+  };
+
+  const toggleUnit = (unitId: string) => {
+    setSelectedUnitIds(prev => prev.includes(unitId) ? prev.filter(id => id !== unitId) : [...prev, unitId]);
+  };
+
+  const togglePanelMember = (personaId: string) => {
+    setPanelPersonaIds(prev => prev.includes(personaId)
+      ? prev.filter(id => id !== personaId)
+      : prev.length < PANEL_MAX_EXAMINERS ? [...prev, personaId] : prev);
+  };
+
+  const selectPanelMode = (panel: boolean) => {
+    setIsPanel(panel);
+    setPanelPersonaIds(panel ? [selectedPersonaId] : []);
+  };
+
+  const isPanelIncomplete = isPanel && panelPersonaIds.length < 2;
+  const selectedExperiment = isPractical && experimentId ? findExperiment(experimentId) : undefined;
+
+  const allUnitsSelected = selectedUnitIds.length === SYLLABUS_UNITS[selectedClass].length;
 
   const difficultyMeta = {
     [DifficultyLevel.EASY]: {
@@ -35,6 +93,21 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) =>
 
   const durations = [5, 10, 15];
 
+  const modeMeta = {
+    [ExamMode.VOICE]: { label: "Voice & Camera", desc: "Speak your answers live. Needs a microphone and camera." },
+    [ExamMode.TEXT]: { label: "Typed", desc: "Type your answers. No microphone or camera required." }
+  };
+
+  const inputModeMeta = {
+    [InputMode.CONTINUOUS]: { label: "Open Mic", desc: "Everything the microphone hears is streamed to the examiner." },
+    [InputMode.VAD]: { label: "Voice Detect", desc: "Only your speech is sent; background noise between answers is held back." },
+    [InputMode.PUSH_TO_TALK]: { label: "Push to Talk", desc: "Hold the spacebar or the Talk button while you answer." }
+  };
+
+  const visionMeta = (v: VisionProfile) => v === VisionProfile.OFF
+    ? { label: "Off", desc: "The camera stays closed; the examiner only hears you." }
+    : { label: FRAME_PROFILES[v].label, desc: FRAME_PROFILES[v].description };
+
   return (
     <div className="max-w-5xl w-full grid lg:grid-cols-2 gap-12 items-center animate-in fade-in slide-in-from-bottom-4 duration-700 px-4 py-8">
       <div className="space-y-8">
@@ -62,7 +135,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) =>
               {(Object.values(ClassLevel) as ClassLevel[]).map((level) => (
                 <button
                   key={level}
-                  onClick={() => setSelectedClass(level)}
+                  onClick={() => selectClass(level)}
                   className={`p-3 rounded-xl border text-sm font-bold transition-all text-center flex flex-col items-center space-y-1 ${
                     selectedClass === level 
                       ? "bg-indigo-600 text-white border-indigo-400 shadow-lg shadow-indigo-900/20" 
@@ -75,6 +148,125 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) =>
             </div>
           </div>
 
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest ml-1">Viva Type</label>
+            <div className="grid grid-cols-2 gap-3">
+              {[false, true].map((practical) => (
+                <button
+                  key={String(practical)}
+                  onClick={() => setIsPractical(practical)}
+                  className={`p-3 rounded-xl border text-sm font-bold transition-all text-center flex flex-col items-center space-y-1 ${
+                    isPractical === practical
+                      ? "bg-indigo-600 text-white border-indigo-400 shadow-lg shadow-indigo-900/20"
+                      : "bg-slate-900/50 border-slate-800 text-slate-400 hover:border-slate-700"
+                  }`}
+                >
+                  <span>{practical ? 'Practical' : 'Theory'}</span>
+                </button>
+              ))}
+            </div>
+            {isPractical && (
+              <div className="space-y-2">
+                <select
+                  value={experimentId}
+                  onChange={(e) => setExperimentId(e.target.value)}
+                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-800 rounded-xl text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="">Choose the experiment you performed…</option>
+                  {SYLLABUS_UNITS[selectedClass].flatMap(unit => unit.chapters).filter(ch => ch.experiments.length > 0).map(ch => (
+                    <optgroup key={ch.id} label={ch.title}>
+                      {ch.experiments.map(exp => <option key={exp.id} value={exp.id}>{exp.title}</option>)}
+                    </optgroup>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 ml-1">
+                  {selectedExperiment
+                    ? getPracticalGuide(selectedExperiment.experiment).aim
+                    : 'The examiner asks about its aim, apparatus, procedure, precautions, sources of error and result.'}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {!isPractical && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-widest ml-1">Syllabus Units</label>
+              <button
+                onClick={() => setSelectedUnitIds(allUnitsSelected ? [] : getAllUnitIds(selectedClass))}
+                className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest"
+              >
+                {allUnitsSelected ? 'Clear' : 'Select All'}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {SYLLABUS_UNITS[selectedClass].map((unit) => (
+                <button
+                  key={unit.id}
+                  onClick={() => toggleUnit(unit.id)}
+                  title={unit.chapters.map(ch => ch.title).join(' • ')}
+                  className={`px-3 py-1.5 rounded-full border text-xs font-bold transition-all ${
+                    selectedUnitIds.includes(unit.id)
+                      ? "bg-indigo-600 text-white border-indigo-400"
+                      : "bg-slate-900/50 border-slate-800 text-slate-500 hover:border-slate-700"
+                  }`}
+                >
+                  {unit.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-widest ml-1">Examiner</label>
+              {onManagePersonas && (
+                <button
+                  onClick={onManagePersonas}
+                  className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest"
+                >
+                  Manage
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {personas.map((p) => {
+                const isSelected = isPanel ? panelPersonaIds.includes(p.id) : selectedPersonaId === p.id;
+                return (
+                  <button
+                    key={p.id}
+                    onClick={() => isPanel ? togglePanelMember(p.id) : setSelectedPersonaId(p.id)}
+                    title={p.description}
+                    className={`px-3 py-1.5 rounded-full border text-xs font-bold transition-all ${
+                      isSelected
+                        ? "bg-indigo-600 text-white border-indigo-400"
+                        : "bg-slate-900/50 border-slate-800 text-slate-500 hover:border-slate-700"
+                    }`}
+                  >
+                    {p.icon} {p.label}
+                  </button>
+                );
+              })}
+            </div>
+            <label className="flex items-center space-x-2 ml-1 text-xs text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isPanel}
+                onChange={(e) => selectPanelMode(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              <span>Panel viva — up to {PANEL_MAX_EXAMINERS} examiners take turns asking</span>
+            </label>
+            <p className="text-xs text-slate-500 ml-1">
+              {isPanel
+                ? isPanelIncomplete
+                  ? 'Pick at least two examiners for the panel.'
+                  : `Led by ${findPersona(panelPersonaIds[0], personas).label}, then ${panelPersonaIds.slice(1).map(id => findPersona(id, personas).label).join(', ')} in turn.`
+                : findPersona(selectedPersonaId, personas).description}
+            </p>
+          </div>
+
           <div className="space-y-3">
             <label className="text-xs font-bold text-slate-500 uppercase tracking-widest ml-1">Select Difficulty</label>
             <div className="grid grid-cols-3 gap-3">
@@ -92,6 +284,86 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) =>
                 </button>
               ))}
             </div>
+            <label className="flex items-center space-x-2 ml-1 text-xs text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={adaptiveDifficulty}
+                onChange={(e) => setAdaptiveDifficulty(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              <span>Adaptive — start here and let the examiner raise or lower the level based on my answers</span>
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest ml-1">Answer Mode</label>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.values(ExamMode) as ExamMode[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setSelectedMode(m)}
+                  title={modeMeta[m].desc}
+                  className={`p-3 rounded-xl border text-sm font-bold transition-all text-center flex flex-col items-center space-y-1 ${
+                    selectedMode === m 
+                      ? "bg-indigo-600 text-white border-indigo-400 shadow-lg shadow-indigo-900/20" 
+                      : "bg-slate-900/50 border-slate-800 text-slate-400 hover:border-slate-700"
+                  }`}
+                >
+                  <span>{modeMeta[m].label}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 ml-1">{modeMeta[selectedMode].desc}</p>
+            {selectedMode === ExamMode.TEXT && (
+              <label className="flex items-center space-x-2 ml-1 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={speakReplies}
+                  onChange={(e) => setSpeakReplies(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                <span>Read examiner replies aloud</span>
+              </label>
+            )}
+            {selectedMode === ExamMode.VOICE && (
+              <div className="space-y-2 pt-1">
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.values(InputMode) as InputMode[]).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setSelectedInputMode(m)}
+                      title={inputModeMeta[m].desc}
+                      className={`px-2 py-2 rounded-lg border text-xs font-bold transition-all ${
+                        selectedInputMode === m
+                          ? "bg-indigo-600/20 text-indigo-200 border-indigo-500"
+                          : "bg-slate-900/50 border-slate-800 text-slate-500 hover:border-slate-700"
+                      }`}
+                    >
+                      {inputModeMeta[m].label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 ml-1">{inputModeMeta[selectedInputMode].desc}</p>
+                <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest ml-1 pt-2">Camera Feed</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {(Object.values(VisionProfile) as VisionProfile[]).map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setVisionProfile(v)}
+                      title={visionMeta(v).desc}
+                      className={`px-2 py-2 rounded-lg border text-xs font-bold transition-all ${
+                        visionProfile === v
+                          ? "bg-indigo-600/20 text-indigo-200 border-indigo-500"
+                          : "bg-slate-900/50 border-slate-800 text-slate-500 hover:border-slate-700"
+                      }`}
+                    >
+                      {visionMeta(v).label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 ml-1">{visionMeta(visionProfile).desc}</p>
+              </div>
+            )}
           </div>
 
           <div className="space-y-3">
@@ -116,8 +388,22 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) =>
         
         <div className="flex flex-col sm:flex-row gap-4 pt-4">
           <button 
-            onClick={() => onStart(selectedDifficulty, selectedDuration, selectedClass)}
-            className="flex-grow px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold text-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-xl shadow-indigo-600/30 flex items-center justify-center space-x-3"
+            onClick={() => onStart({
+              classLevel: selectedClass,
+              difficulty: selectedDifficulty,
+              durationMinutes: selectedDuration,
+              syllabusUnitIds: selectedExperiment ? [selectedExperiment.unit.id] : selectedUnitIds,
+              mode: selectedMode,
+              speakReplies: selectedMode === ExamMode.TEXT && speakReplies,
+              inputMode: selectedInputMode,
+              visionProfile: selectedMode === ExamMode.VOICE ? visionProfile : VisionProfile.OFF,
+              adaptiveDifficulty,
+              personaId: isPanel ? panelPersonaIds[0] : selectedPersonaId,
+              panelPersonaIds: isPanel ? panelPersonaIds : undefined,
+              experimentId: selectedExperiment?.experiment.id
+            })}
+            disabled={(isPractical ? !selectedExperiment : selectedUnitIds.length === 0) || isPanelIncomplete}
+            className="flex-grow px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold text-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-xl shadow-indigo-600/30 flex items-center justify-center space-x-3 disabled:opacity-40 disabled:pointer-events-none"
           >
             <span>Begin Examination</span>
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -137,6 +423,45 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onInstall }) =>
             </button>
           )}
         </div>
+
+        {(onShowHistory || onShowDashboard || onManageRubric) && (
+          <div className="grid grid-cols-2 gap-3">
+            {onShowHistory && (
+              <button 
+                onClick={onShowHistory}
+                className="px-4 py-3 bg-slate-900/50 hover:bg-slate-800 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-800 flex items-center justify-center space-x-2"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                </svg>
+                <span>Past Attempts</span>
+              </button>
+            )}
+            {onShowDashboard && (
+              <button 
+                onClick={onShowDashboard}
+                className="px-4 py-3 bg-slate-900/50 hover:bg-slate-800 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-800 flex items-center justify-center space-x-2"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+                </svg>
+                <span>Progress</span>
+              </button>
+            )}
+            {onManageRubric && (
+              <button 
+                onClick={onManageRubric}
+                className="col-span-2 px-4 py-3 bg-slate-900/50 hover:bg-slate-800 text-slate-300 rounded-xl font-bold text-sm transition-all border border-slate-800 flex items-center justify-center space-x-2"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M9 2a1 1 0 000 2h2a1 1 0 100-2H9z" />
+                  <path fillRule="evenodd" d="M4 5a2 2 0 012-2 3 3 0 003 3h2a3 3 0 003-3 2 2 0 012 2v11a2 2 0 01-2 2H6a2 2 0 01-2-2V5zm9.707 5.707a1 1 0 00-1.414-1.414L9 12.586l-1.293-1.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                </svg>
+                <span>Marking Rubric</span>
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="relative group hidden lg:block">
@@ -0,0 +1,183 @@
+
+import { ChecklistCategory, ChecklistItem, PracticalExperiment, PracticalGuide } from '../types';
+import { findExperiment } from './syllabus';
+
+/** The six points every board practical viva covers, in the order an examiner usually asks them. */
+export const PRACTICAL_ASPECTS: { id: string; label: string }[] = [
+  { id: 'aim', label: 'Aim' },
+  { id: 'apparatus', label: 'Apparatus' },
+  { id: 'procedure', label: 'Procedure' },
+  { id: 'precautions', label: 'Precautions' },
+  { id: 'errors', label: 'Sources of error' },
+  { id: 'result', label: 'Result' }
+];
+
+export const CHECKLIST_CATEGORY_LABELS: Record<ChecklistCategory, string> = {
+  aspect: 'Viva Points',
+  apparatus: 'Apparatus',
+  concept: 'Key Concepts'
+};
+
+/** Apparatus and key concepts per experiment ID; experiments without an entry get the aspects only. */
+export const PRACTICAL_GUIDES: Record<string, PracticalGuide> = {
+  'vernier-callipers': {
+    aim: 'To measure the diameter of a small spherical body using Vernier callipers.',
+    apparatus: ['Vernier callipers', 'Spherical bob'],
+    concepts: ['Vernier constant (least count)', 'Zero error and its correction']
+  },
+  'screw-gauge': {
+    aim: 'To measure the diameter of a given wire using a screw gauge.',
+    apparatus: ['Screw gauge', 'Wire'],
+    concepts: ['Pitch and least count', 'Zero error and backlash error']
+  },
+  'spherometer': {
+    aim: 'To determine the radius of curvature of a given spherical surface by a spherometer.',
+    apparatus: ['Spherometer', 'Convex or concave glass surface', 'Plane glass plate'],
+    concepts: ['Least count of the spherometer', 'R = l²/6h + h/2']
+  },
+  'parallelogram-law': {
+    aim: 'To find the weight of a given body using the parallelogram law of vectors.',
+    apparatus: ['Gravesand\'s apparatus', 'Slotted weights', 'Pulleys and thread', 'Unknown body'],
+    concepts: ['Parallelogram law of vector addition', 'Equilibrium of three concurrent forces']
+  },
+  'limiting-friction': {
+    aim: 'To study the relationship between the force of limiting friction and the normal reaction.',
+    apparatus: ['Wooden block with hook', 'Horizontal plane', 'Pulley', 'Scale pan and weights'],
+    concepts: ['Coefficient of limiting friction μ = F/R', 'Static versus kinetic friction']
+  },
+  'inclined-plane': {
+    aim: 'To find the downward force along an inclined plane acting on a roller due to gravity and study its relationship with the angle of inclination.',
+    apparatus: ['Inclined plane with protractor', 'Roller', 'Pulley', 'Scale pan and weights'],
+    concepts: ['Component mg sin θ along the plane', 'Graph of force against sin θ']
+  },
+  'youngs-modulus': {
+    aim: "To determine Young's modulus of elasticity of the material of a given wire using Searle's apparatus.",
+    apparatus: ["Searle's apparatus", 'Two identical wires', 'Screw gauge', 'Slotted weights', 'Metre scale'],
+    concepts: ['Stress and strain', 'Y = MgL/πr²l', 'Elastic limit']
+  },
+  'helical-spring': {
+    aim: 'To find the spring constant of a helical spring from its load-extension graph.',
+    apparatus: ['Helical spring', 'Rigid stand', 'Slotted weights', 'Vertical scale with pointer'],
+    concepts: ["Hooke's law", 'Spring constant from the slope of the load-extension graph']
+  },
+  'capillary-rise': {
+    aim: 'To determine the surface tension of water by the capillary rise method.',
+    apparatus: ['Capillary tube', 'Beaker of water', 'Travelling microscope', 'Clamp stand'],
+    concepts: ['Angle of contact', 'T = rhρg/2']
+  },
+  'terminal-velocity': {
+    aim: 'To determine the coefficient of viscosity of a given viscous liquid by measuring the terminal velocity of a spherical body.',
+    apparatus: ['Tall glass jar with viscous liquid', 'Steel ball bearings', 'Stopwatch', 'Screw gauge', 'Metre scale'],
+    concepts: ["Stokes' law", 'Terminal velocity', 'η = 2r²(ρ − σ)g/9v']
+  },
+  'cooling-curve': {
+    aim: 'To study the relationship between the temperature of a hot body and time by plotting a cooling curve.',
+    apparatus: ['Copper calorimeter', 'Thermometer', 'Stopwatch', 'Hot water', 'Clamp stand'],
+    concepts: ["Newton's law of cooling", 'Rate of cooling and temperature difference']
+  },
+  'specific-heat': {
+    aim: 'To determine the specific heat capacity of a given solid by the method of mixtures.',
+    apparatus: ['Copper calorimeter with stirrer', 'Solid sample', 'Hypsometer', 'Thermometers', 'Physical balance'],
+    concepts: ['Principle of calorimetry (heat lost = heat gained)', 'Water equivalent of the calorimeter']
+  },
+  'boyles-law': {
+    aim: "To verify Boyle's law using a Boyle's law apparatus.",
+    apparatus: ["Boyle's law apparatus", 'Mercury reservoir', 'Barometer reading'],
+    concepts: ['PV = constant at constant temperature', 'Graph of P against 1/V']
+  },
+  'simple-pendulum': {
+    aim: 'To study the variation of the time period of a simple pendulum with its length, plot the L-T² graph and find g.',
+    apparatus: ['Bob with thread', 'Split cork and clamp stand', 'Stopwatch', 'Metre scale', 'Vernier callipers'],
+    concepts: ['T = 2π√(L/g)', 'Effective length including the bob radius', 'Small-angle approximation']
+  },
+  'resonance-tube': {
+    aim: 'To determine the speed of sound in air at room temperature using a resonance tube.',
+    apparatus: ['Resonance tube', 'Tuning forks', 'Rubber pad', 'Water reservoir', 'Thermometer'],
+    concepts: ['First and second resonance', 'End correction', 'v = 2f(l₂ − l₁)']
+  },
+  'sonometer': {
+    aim: 'To study the relation between frequency and length of a given wire under constant tension using a sonometer.',
+    apparatus: ['Sonometer', 'Tuning forks', 'Paper rider', 'Slotted weights'],
+    concepts: ['Resonance of a stretched string', 'f·l = constant at fixed tension']
+  },
+  'ohms-law': {
+    aim: "To verify Ohm's law and find the resistance of a given wire by plotting a graph of potential difference against current.",
+    apparatus: ['Battery or eliminator', 'Ammeter', 'Voltmeter', 'Rheostat', 'Resistance wire', 'Plug key'],
+    concepts: ["Ohm's law V = IR", 'Resistance from the slope of the V-I graph', 'Ammeter in series, voltmeter in parallel']
+  },
+  'meter-bridge': {
+    aim: 'To find the resistance of a given wire using a metre bridge and hence determine the resistivity of its material.',
+    apparatus: ['Metre bridge', 'Galvanometer', 'Resistance box', 'Jockey', 'Leclanché cell', 'Screw gauge'],
+    concepts: ['Wheatstone bridge balance condition', 'Null point and end corrections', 'ρ = πr²R/L']
+  },
+  'resistors-combination': {
+    aim: 'To verify the laws of combination (series and parallel) of resistances using a metre bridge.',
+    apparatus: ['Metre bridge', 'Two resistance coils', 'Galvanometer', 'Resistance box', 'Jockey'],
+    concepts: ['Rs = R₁ + R₂', '1/Rp = 1/R₁ + 1/R₂']
+  },
+  'galvanometer-half-deflection': {
+    aim: 'To determine the resistance of a galvanometer by the half-deflection method and find its figure of merit.',
+    apparatus: ['Galvanometer', 'Two resistance boxes', 'Battery', 'Plug keys'],
+    concepts: ['G = RS/(R − S)', 'Figure of merit k = E/(R + G)θ']
+  },
+  'concave-mirror': {
+    aim: 'To find the focal length of a concave mirror using the u-v method.',
+    apparatus: ['Optical bench', 'Concave mirror', 'Two needles', 'Mirror holder'],
+    concepts: ['Mirror formula 1/f = 1/v + 1/u', 'Parallax removal', 'Sign convention']
+  },
+  'convex-lens': {
+    aim: 'To find the focal length of a convex lens by plotting graphs between u and v or 1/u and 1/v.',
+    apparatus: ['Optical bench', 'Convex lens', 'Two needles', 'Lens holder'],
+    concepts: ['Lens formula 1/f = 1/v − 1/u', 'Parallax removal', 'Index correction']
+  },
+  'prism-deviation': {
+    aim: 'To determine the angle of minimum deviation for a given prism by plotting a graph of angle of incidence against angle of deviation.',
+    apparatus: ['Glass prism', 'Drawing board', 'Alpins', 'Protractor', 'White sheet'],
+    concepts: ['Angle of minimum deviation', 'μ = sin((A + Dm)/2)/sin(A/2)']
+  },
+  'glass-slab': {
+    aim: 'To determine the refractive index of a glass slab using a travelling microscope.',
+    apparatus: ['Travelling microscope', 'Glass slab', 'Lycopodium powder'],
+    concepts: ['Real and apparent depth', 'μ = real depth / apparent depth', 'Vernier reading of the microscope']
+  },
+  'pn-junction': {
+    aim: 'To draw the I-V characteristic curve of a p-n junction diode in forward and reverse bias.',
+    apparatus: ['p-n junction diode', 'Battery', 'Milliammeter and microammeter', 'Voltmeter', 'Rheostat'],
+    concepts: ['Knee (threshold) voltage', 'Forward and reverse bias', 'Dynamic resistance']
+  },
+  'zener-diode': {
+    aim: 'To draw the characteristic curve of a Zener diode and determine its reverse breakdown voltage.',
+    apparatus: ['Zener diode', 'Battery', 'Milliammeter', 'Voltmeter', 'Rheostat', 'Series resistor'],
+    concepts: ['Zener breakdown', 'Use as a voltage regulator']
+  }
+};
+
+export function getPracticalGuide(experiment: PracticalExperiment): PracticalGuide {
+  return PRACTICAL_GUIDES[experiment.id] ?? { aim: experiment.title, apparatus: [], concepts: [] };
+}
+
+/** The unaddressed checklist for an experiment: the six aspects, then its apparatus and key concepts. */
+export function buildPracticalChecklist(experimentId: string): ChecklistItem[] {
+  const found = findExperiment(experimentId);
+  if (!found) return [];
+  const guide = getPracticalGuide(found.experiment);
+  return [
+    ...PRACTICAL_ASPECTS.map(a => ({ id: `aspect:${a.id}`, label: a.label, category: 'aspect' as const, addressed: false })),
+    ...guide.apparatus.map((label, i) => ({ id: `apparatus:${i}`, label, category: 'apparatus' as const, addressed: false })),
+    ...guide.concepts.map((label, i) => ({ id: `concept:${i}`, label, category: 'concept' as const, addressed: false }))
+  ];
+}
+
+/** Prompt text telling the examiner which practical to examine and what it should cover. */
+export function formatPracticalForPrompt(experimentId: string): string {
+  const found = findExperiment(experimentId);
+  if (!found) return '';
+  const guide = getPracticalGuide(found.experiment);
+  return [
+    `Practical: ${found.experiment.title} (${found.chapter.title}).`,
+    `Aim: ${guide.aim}`,
+    guide.apparatus.length > 0 ? `Apparatus: ${guide.apparatus.join(', ')}.` : '',
+    guide.concepts.length > 0 ? `Key concepts: ${guide.concepts.join('; ')}.` : '',
+    `Question the candidate on this experiment only, one point at a time: ${PRACTICAL_ASPECTS.map(a => a.label.toLowerCase()).join(', ')}. Cover every point before the time runs out.`
+  ].filter(Boolean).join('\n');
+}
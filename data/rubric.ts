@@ -0,0 +1,44 @@
+
+import { Rubric } from '../types';
+
+/**
+ * Board viva rubric, used until a school saves its own (see services/rubricStore). Weights are relative and need not sum to 100;
+ * grade bands follow the board's nine-point scale and must be sorted by descending minPercent.
+ */
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'board-viva-v1',
+  name: 'Board Practical Viva',
+  criteria: [
+    {
+      id: 'conceptual-clarity',
+      label: 'Conceptual Clarity',
+      description: 'Understands the underlying principle and can explain why, not just what.',
+      weight: 40,
+      maxMarks: 10
+    },
+    {
+      id: 'technical-accuracy',
+      label: 'Technical Accuracy',
+      description: 'Definitions, formulae, units and numerical values are correct.',
+      weight: 35,
+      maxMarks: 10
+    },
+    {
+      id: 'confidence',
+      label: 'Confidence & Communication',
+      description: 'Answers promptly, uses correct technical English and stays composed under follow-ups.',
+      weight: 25,
+      maxMarks: 5
+    }
+  ],
+  gradeBands: [
+    { grade: 'A1', minPercent: 91 },
+    { grade: 'A2', minPercent: 81 },
+    { grade: 'B1', minPercent: 71 },
+    { grade: 'B2', minPercent: 61 },
+    { grade: 'C1', minPercent: 51 },
+    { grade: 'C2', minPercent: 41 },
+    { grade: 'D', minPercent: 33 },
+    { grade: 'E', minPercent: 0 }
+  ]
+};
@@ -0,0 +1,413 @@
+
+import { ClassLevel, SyllabusUnit, SyllabusChapter, PracticalExperiment } from '../types';
+
+export const SYLLABUS_UNITS: Record<ClassLevel, SyllabusUnit[]> = {
+  [ClassLevel.XI]: [
+    {
+      id: 'xi-u01',
+      name: 'Units and Measurements',
+      keywords: ['dimensional analysis', 'dimensional formula', 'significant figure', 'least count', 'zero error', 'percentage error', 'vernier', 'screw gauge'],
+      chapters: [
+        {
+          id: 'xi-ch01',
+          title: 'Units and Measurements',
+          topics: ['SI units and fundamental quantities', 'Significant figures', 'Dimensional analysis and its applications', 'Errors in measurement and their propagation'],
+          experiments: [
+            { id: 'vernier-callipers', title: 'Diameter of a sphere using Vernier callipers' },
+            { id: 'screw-gauge', title: 'Diameter of a wire using a screw gauge' },
+            { id: 'spherometer', title: 'Radius of curvature using a spherometer' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'xi-u02',
+      name: 'Kinematics',
+      keywords: ['kinematics', 'projectile', 'motion in a plane', 'relative velocity', 'equations of motion', 'uniformly accelerated'],
+      chapters: [
+        {
+          id: 'xi-ch02',
+          title: 'Motion in a Straight Line',
+          topics: ['Position, path length and displacement', 'Average and instantaneous velocity', 'Uniformly accelerated motion', 'Position-time and velocity-time graphs'],
+          experiments: []
+        },
+        {
+          id: 'xi-ch03',
+          title: 'Motion in a Plane',
+          topics: ['Scalars and vectors', 'Resolution and addition of vectors', 'Projectile motion', 'Uniform circular motion'],
+          experiments: [
+            { id: 'parallelogram-law', title: 'Parallelogram law of vectors' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'xi-u03',
+      name: 'Laws of Motion',
+      keywords: ['laws of motion', "newton's law", "newton's first law", "newton's second law", "newton's third law", 'law of inertia', 'friction', 'linear momentum', 'conservation of momentum', 'impulse'],
+      chapters: [
+        {
+          id: 'xi-ch04',
+          title: 'Laws of Motion',
+          topics: ["Newton's laws of motion", 'Conservation of linear momentum', 'Static and kinetic friction', 'Dynamics of circular motion and banking of roads'],
+          experiments: [
+            { id: 'limiting-friction', title: 'Coefficient of limiting friction' },
+            { id: 'inclined-plane', title: 'Downward force along an inclined plane' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'xi-u04',
+      name: 'Work, Energy and Power',
+      keywords: ['work-energy theorem', 'work energy theorem', 'kinetic energy', 'potential energy', 'mechanical energy', 'conservation of energy', 'elastic collision', 'inelastic collision', 'coefficient of restitution'],
+      chapters: [
+        {
+          id: 'xi-ch05',
+          title: 'Work, Energy and Power',
+          topics: ['Work-energy theorem', 'Potential energy of a spring', 'Conservation of mechanical energy', 'Elastic and inelastic collisions', 'Power'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xi-u05',
+      name: 'Rotational Motion',
+      keywords: ['rotational', 'torque', 'angular momentum', 'moment of inertia', 'centre of mass', 'center of mass', 'rigid body', 'radius of gyration'],
+      chapters: [
+        {
+          id: 'xi-ch06',
+          title: 'System of Particles and Rotational Motion',
+          topics: ['Centre of mass', 'Torque and angular momentum', 'Moment of inertia', 'Equilibrium of rigid bodies'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xi-u06',
+      name: 'Gravitation',
+      keywords: ['gravitation', 'gravitational', 'kepler', 'satellite', 'escape velocity', 'orbital velocity', 'acceleration due to gravity'],
+      chapters: [
+        {
+          id: 'xi-ch07',
+          title: 'Gravitation',
+          topics: ["Kepler's laws", 'Universal law of gravitation', 'Variation of g with altitude and depth', 'Escape and orbital velocity'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xi-u07',
+      name: 'Properties of Bulk Matter',
+      keywords: ['elasticity', "young's modulus", "hooke's law", 'stress', 'strain', 'viscosity', 'terminal velocity', 'surface tension', 'capillary', 'bernoulli', 'specific heat', 'law of cooling'],
+      chapters: [
+        {
+          id: 'xi-ch08',
+          title: 'Mechanical Properties of Solids',
+          topics: ['Stress and strain', "Hooke's law", "Young's, bulk and shear modulus", 'Stress-strain curve'],
+          experiments: [
+            { id: 'youngs-modulus', title: "Young's modulus of a wire using Searle's apparatus" },
+            { id: 'helical-spring', title: 'Spring constant of a helical spring' }
+          ]
+        },
+        {
+          id: 'xi-ch09',
+          title: 'Mechanical Properties of Fluids',
+          topics: ["Pascal's law", 'Viscosity and terminal velocity', "Bernoulli's principle", 'Surface tension and capillary rise'],
+          experiments: [
+            { id: 'capillary-rise', title: 'Surface tension of water by capillary rise' },
+            { id: 'terminal-velocity', title: 'Coefficient of viscosity by terminal velocity' }
+          ]
+        },
+        {
+          id: 'xi-ch10',
+          title: 'Thermal Properties of Matter',
+          topics: ['Thermal expansion', 'Specific heat capacity and calorimetry', 'Conduction, convection and radiation', "Newton's law of cooling"],
+          experiments: [
+            { id: 'cooling-curve', title: 'Cooling curve of a hot body' },
+            { id: 'specific-heat', title: 'Specific heat capacity by the method of mixtures' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'xi-u08',
+      name: 'Thermodynamics',
+      keywords: ['thermodynamics', 'heat engine', 'refrigerator', 'entropy', 'carnot', 'isothermal', 'adiabatic'],
+      chapters: [
+        {
+          id: 'xi-ch11',
+          title: 'Thermodynamics',
+          topics: ['Zeroth and first law of thermodynamics', 'Isothermal and adiabatic processes', 'Second law of thermodynamics', 'Heat engines and refrigerators'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xi-u09',
+      name: 'Kinetic Theory',
+      keywords: ['kinetic theory', 'ideal gas', 'rms speed', 'equipartition', 'mean free path', 'boyle'],
+      chapters: [
+        {
+          id: 'xi-ch12',
+          title: 'Kinetic Theory',
+          topics: ['Ideal gas equation', 'Pressure of an ideal gas', 'Law of equipartition of energy', 'Mean free path'],
+          experiments: [
+            { id: 'boyles-law', title: "Verification of Boyle's law" }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'xi-u10',
+      name: 'Oscillations and Waves',
+      keywords: ['oscillation', 'simple harmonic', 'shm', 'pendulum', 'resonance tube', 'stationary wave', 'standing wave', 'beats', 'speed of sound', 'sonometer', 'doppler'],
+      chapters: [
+        {
+          id: 'xi-ch13',
+          title: 'Oscillations',
+          topics: ['Simple harmonic motion', 'Energy in SHM', 'Simple pendulum', 'Spring-mass system'],
+          experiments: [
+            { id: 'simple-pendulum', title: 'Simple pendulum: L-T² graph and value of g' }
+          ]
+        },
+        {
+          id: 'xi-ch14',
+          title: 'Waves',
+          topics: ['Transverse and longitudinal waves', 'Speed of a travelling wave', 'Standing waves and normal modes', 'Beats'],
+          experiments: [
+            { id: 'resonance-tube', title: 'Speed of sound using a resonance tube' },
+            { id: 'sonometer', title: 'Frequency and length of a wire on a sonometer' }
+          ]
+        }
+      ]
+    }
+  ],
+  [ClassLevel.XII]: [
+    {
+      id: 'xii-u01',
+      name: 'Electrostatics',
+      keywords: ['electrostatics', 'electrostatic', 'coulomb', 'electric field', "gauss's law", 'electric potential', 'equipotential', 'electric dipole', 'capacitor', 'capacitance', 'dielectric'],
+      chapters: [
+        {
+          id: 'xii-ch01',
+          title: 'Electric Charges and Fields',
+          topics: ["Coulomb's law", 'Electric field and field lines', 'Electric dipole', "Gauss's law and its applications"],
+          experiments: []
+        },
+        {
+          id: 'xii-ch02',
+          title: 'Electrostatic Potential and Capacitance',
+          topics: ['Electric potential and equipotential surfaces', 'Potential energy of a system of charges', 'Capacitors in series and parallel', 'Dielectrics and energy stored in a capacitor'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u02',
+      name: 'Current Electricity',
+      keywords: ['current electricity', "ohm's law", 'drift velocity', 'resistivity', 'internal resistance', 'kirchhoff', 'wheatstone', 'meter bridge', 'metre bridge', 'potentiometer'],
+      chapters: [
+        {
+          id: 'xii-ch03',
+          title: 'Current Electricity',
+          topics: ["Ohm's law and drift velocity", 'Resistivity and its temperature dependence', "Kirchhoff's rules", 'Wheatstone bridge and meter bridge', 'EMF and internal resistance of a cell'],
+          experiments: [
+            { id: 'ohms-law', title: "Ohm's law: resistance from the V-I graph" },
+            { id: 'meter-bridge', title: 'Resistivity of a wire using a meter bridge' },
+            { id: 'resistors-combination', title: 'Laws of combination of resistances using a meter bridge' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'xii-u03',
+      name: 'Magnetic Effects',
+      keywords: ['magnetism', 'magnetic field', 'magnetic force', 'biot-savart', 'biot savart', "ampere's law", "ampere's circuital law", 'lorentz force', 'solenoid', 'galvanometer', 'cyclotron'],
+      chapters: [
+        {
+          id: 'xii-ch04',
+          title: 'Moving Charges and Magnetism',
+          topics: ['Biot-Savart law', "Ampere's circuital law", 'Force on a moving charge and a current-carrying conductor', 'Moving coil galvanometer'],
+          experiments: [
+            { id: 'galvanometer-half-deflection', title: 'Galvanometer resistance by half-deflection and figure of merit' }
+          ]
+        },
+        {
+          id: 'xii-ch05',
+          title: 'Magnetism and Matter',
+          topics: ['Bar magnet as a magnetic dipole', "Earth's magnetism", 'Para-, dia- and ferromagnetic substances'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u04',
+      name: 'Electromagnetic Induction and AC',
+      keywords: ['electromagnetic induction', "lenz's law", "faraday's law", 'eddy current', 'self induction', 'mutual induction', 'inductance', 'alternating current', 'transformer', 'lcr'],
+      chapters: [
+        {
+          id: 'xii-ch06',
+          title: 'Electromagnetic Induction',
+          topics: ["Faraday's laws", "Lenz's law and conservation of energy", 'Motional EMF', 'Self and mutual inductance'],
+          experiments: []
+        },
+        {
+          id: 'xii-ch07',
+          title: 'Alternating Current',
+          topics: ['RMS values', 'Reactance and impedance', 'LCR series circuit and resonance', 'Power factor and transformers'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u05',
+      name: 'Electromagnetic Waves',
+      keywords: ['electromagnetic wave', 'displacement current', 'electromagnetic spectrum'],
+      chapters: [
+        {
+          id: 'xii-ch08',
+          title: 'Electromagnetic Waves',
+          topics: ['Displacement current', 'Characteristics of electromagnetic waves', 'Electromagnetic spectrum'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u06',
+      name: 'Optics',
+      keywords: ['optics', 'lens', 'lenses', 'mirror', 'refraction', 'reflection', 'refractive index', 'prism', 'interference', 'diffraction', 'polarisation', 'polarization', 'focal length'],
+      chapters: [
+        {
+          id: 'xii-ch09',
+          title: 'Ray Optics and Optical Instruments',
+          topics: ['Mirror and lens formula', 'Total internal reflection', 'Refraction through a prism', 'Microscope and telescope'],
+          experiments: [
+            { id: 'concave-mirror', title: 'Focal length of a concave mirror' },
+            { id: 'convex-lens', title: 'Focal length of a convex lens' },
+            { id: 'prism-deviation', title: 'Angle of minimum deviation of a prism' },
+            { id: 'glass-slab', title: 'Refractive index of a glass slab using a travelling microscope' }
+          ]
+        },
+        {
+          id: 'xii-ch10',
+          title: 'Wave Optics',
+          topics: ["Huygens' principle", "Young's double slit experiment", 'Single slit diffraction', 'Polarisation'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u07',
+      name: 'Dual Nature of Radiation',
+      keywords: ['dual nature', 'photoelectric', 'photon', 'de broglie', 'work function'],
+      chapters: [
+        {
+          id: 'xii-ch11',
+          title: 'Dual Nature of Radiation and Matter',
+          topics: ['Photoelectric effect', "Einstein's photoelectric equation", 'De Broglie wavelength'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u08',
+      name: 'Atoms and Nuclei',
+      keywords: ['atom', 'atomic', 'nucleus', 'nuclei', 'nuclear', 'bohr', 'radioactivity', 'radioactive', 'half-life', 'fission', 'fusion', 'binding energy', 'mass defect'],
+      chapters: [
+        {
+          id: 'xii-ch12',
+          title: 'Atoms',
+          topics: ['Rutherford scattering', 'Bohr model of the hydrogen atom', 'Hydrogen spectrum and energy levels'],
+          experiments: []
+        },
+        {
+          id: 'xii-ch13',
+          title: 'Nuclei',
+          topics: ['Composition and size of the nucleus', 'Mass defect and binding energy', 'Nuclear fission and fusion'],
+          experiments: []
+        }
+      ]
+    },
+    {
+      id: 'xii-u09',
+      name: 'Electronic Devices',
+      keywords: ['semiconductor', 'diode', 'transistor', 'p-n junction', 'pn junction', 'rectifier', 'zener', 'logic gate'],
+      chapters: [
+        {
+          id: 'xii-ch14',
+          title: 'Semiconductor Electronics',
+          topics: ['Intrinsic and extrinsic semiconductors', 'P-N junction formation', 'Diode in forward and reverse bias', 'Half-wave and full-wave rectifiers'],
+          experiments: [
+            { id: 'pn-junction', title: 'I-V characteristics of a p-n junction diode' },
+            { id: 'zener-diode', title: 'Zener diode characteristics and reverse breakdown voltage' }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+export function getAllUnitIds(classLevel: ClassLevel): string[] {
+  return SYLLABUS_UNITS[classLevel].map(u => u.id);
+}
+
+/** Resolves unit IDs to units of the class, falling back to the whole syllabus when none are selected. */
+export function getSelectedUnits(classLevel: ClassLevel, unitIds?: string[]): SyllabusUnit[] {
+  const units = SYLLABUS_UNITS[classLevel];
+  const selected = unitIds && unitIds.length > 0 ? units.filter(u => unitIds.includes(u.id)) : [];
+  return selected.length > 0 ? selected : units;
+}
+
+export function findChapter(chapterId: string): { unit: SyllabusUnit; chapter: SyllabusChapter } | undefined {
+  for (const units of Object.values(SYLLABUS_UNITS)) {
+    for (const unit of units) {
+      const chapter = unit.chapters.find(c => c.id === chapterId);
+      if (chapter) return { unit, chapter };
+    }
+  }
+  return undefined;
+}
+
+export function findExperiment(experimentId: string): { unit: SyllabusUnit; chapter: SyllabusChapter; experiment: PracticalExperiment } | undefined {
+  for (const units of Object.values(SYLLABUS_UNITS)) {
+    for (const unit of units) {
+      for (const chapter of unit.chapters) {
+        const experiment = chapter.experiments.find(e => e.id === experimentId);
+        if (experiment) return { unit, chapter, experiment };
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Display label for a report topic: the chapter title for catalogue IDs, the raw text otherwise. */
+export function describeTopic(topic: string): string {
+  return findChapter(topic)?.chapter.title ?? topic;
+}
+
+/** Renders the selected chapters and their topics as prompt text, one chapter per line with its ID. */
+export function formatSyllabusForPrompt(classLevel: ClassLevel, unitIds?: string[]): string {
+  return getSelectedUnits(classLevel, unitIds)
+    .flatMap(unit => unit.chapters.map(ch => `- [${ch.id}] ${unit.name} › ${ch.title}: ${ch.topics.join('; ')}`))
+    .join('\n');
+}
+
+// Keywords and unit names only count as whole words (a trailing plural "s" allowed), so
+// "electromagnetic" does not match "magnetic".
+function mentions(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}s?($|[^a-z0-9])`).test(text);
+}
+
+/** Returns the names of every unit referenced by the given entries, either by chapter ID or by keyword. */
+export function matchSyllabusUnits(classLevel: ClassLevel, entries: string[]): string[] {
+  const haystack = entries.map(e => e.toLowerCase().replace(/[‘’]/g, "'"));
+  return SYLLABUS_UNITS[classLevel]
+    .filter(unit => haystack.some(text =>
+      unit.chapters.some(ch => ch.id === text) ||
+      mentions(text, unit.name.toLowerCase()) ||
+      unit.keywords.some(k => mentions(text, k))
+    ))
+    .map(unit => unit.name);
+}
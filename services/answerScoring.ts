@@ -0,0 +1,39 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { ClassLevel } from '../types';
+import { QUESTION_MAX_MARKS } from './questionAnalysis';
+
+/**
+ * Quickly marks a single answer out of QUESTION_MAX_MARKS while the viva is still running,
+ * for adaptive difficulty. Returns null on failure so a missed score never blocks the exam.
+ */
+export async function scoreAnswer(question: string, answer: string, classLevel: ClassLevel): Promise<number | null> {
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Class ${classLevel} Physics viva.
+        Examiner asked: ${question}
+        Candidate answered: ${answer}
+        Mark the answer out of ${QUESTION_MAX_MARKS} for correctness and completeness at board level.`,
+      config: {
+        systemInstruction: "You are a Physics Board Examiner marking one viva answer. Be consistent and brief.",
+        responseMimeType: "application/json",
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            marks: { type: Type.NUMBER, description: `Marks out of ${QUESTION_MAX_MARKS}` }
+          },
+          required: ["marks"]
+        }
+      }
+    });
+    const { marks } = JSON.parse(response.text || '{}');
+    const value = Number(marks);
+    return Number.isFinite(value) ? Math.min(QUESTION_MAX_MARKS, Math.max(0, value)) : null;
+  } catch (error) {
+    console.error("Answer scoring failed:", error);
+    return null;
+  }
+}
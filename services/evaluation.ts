@@ -0,0 +1,99 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { ClassLevel, DifficultyLevel, ExamStats, Rubric, TranscriptionEntry } from '../types';
+import { getSelectedUnits, formatSyllabusForPrompt, findExperiment } from '../data/syllabus';
+import { applyRubric, weightedScore, gradeForScore, CriterionMark } from '../utils/scoring';
+
+/**
+ * Grades a viva transcript against the rubric. Never rejects: when the model call fails the
+ * report is marked `evaluationFailed`, with no grade or score, so the attempt can still be archived
+ * and graded again later.
+ */
+export async function generateReport(
+  transcript: TranscriptionEntry[],
+  classLevel: ClassLevel,
+  difficulty: DifficultyLevel,
+  syllabusUnitIds: string[],
+  rubric: Rubric,
+  experimentId?: string
+): Promise<ExamStats> {
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const chapterIds = getSelectedUnits(classLevel, syllabusUnitIds).flatMap(u => u.chapters.map(ch => ch.id));
+    const practical = experimentId ? findExperiment(experimentId) : undefined;
+    // Diagrams are data URLs; the model only needs to know one was shown, not its pixels.
+    const dialogue = transcript
+      .map(t => `[${t.role === 'user' ? 'Candidate' : t.senderName ?? 'Examiner'}] ${t.text}${t.image ? ' [diagram shown]' : ''}`)
+      .join('\n');
+    const prompt = `Analyze this Physics Viva transcript for Class ${classLevel}. 
+    Transcript: ${transcript.length > 0 ? `\n${dialogue}` : 'No transcript available'}
+    Evaluate against this rubric, awarding marks for every criterion (ID in brackets):
+    ${rubric.criteria.map(c => `- [${c.id}] ${c.label} (out of ${c.maxMarks}): ${c.description}`).join('\n    ')}
+    Justify each mark and quote the candidate's transcript lines verbatim as evidence.
+    Difficulty level was ${difficulty}.
+    ${practical ? `This was a practical viva on "${practical.experiment.title}" (chapter ${practical.chapter.id}).` : ''}
+    The viva was restricted to these syllabus chapters (ID in brackets):
+    ${formatSyllabusForPrompt(classLevel, syllabusUnitIds)}
+    Report topicsCovered and weakChapters using these chapter IDs only.`;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: prompt,
+      config: {
+        systemInstruction: "You are a professional Physics Board Examiner. Analyze the candidate's performance. Be fair but accurate. If they answered poorly, give a lower grade. Provide constructive feedback.",
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            criteria: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  criterionId: { type: Type.STRING, enum: rubric.criteria.map(c => c.id) },
+                  marks: { type: Type.NUMBER, description: "Marks awarded, within the criterion's maximum" },
+                  justification: { type: Type.STRING },
+                  evidence: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Verbatim transcript lines supporting the mark" }
+                },
+                required: ["criterionId", "marks", "justification", "evidence"]
+              }
+            },
+            feedback: { type: Type.STRING, description: "Detailed summary of performance" },
+            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
+            topicsCovered: { type: Type.ARRAY, items: { type: Type.STRING, enum: chapterIds }, description: "IDs of chapters the examiner asked about" },
+            weakChapters: { type: Type.ARRAY, items: { type: Type.STRING, enum: chapterIds }, description: "IDs of chapters the candidate answered poorly" }
+          },
+          required: ["criteria", "feedback", "strengths", "weaknesses", "topicsCovered", "weakChapters"]
+        }
+      }
+    });
+
+    const parsed = JSON.parse(response.text || '{}') as Omit<ExamStats, 'grade' | 'score' | 'criteria'> & { criteria?: CriterionMark[] };
+    const criteria = applyRubric(rubric, parsed.criteria ?? []);
+    const score = weightedScore(criteria);
+    return {
+      ...parsed,
+      grade: gradeForScore(rubric, score),
+      score,
+      rubricId: rubric.id,
+      criteria
+    };
+  } catch (error) {
+    console.error("Report generation failed:", error);
+    return failedEvaluation(rubric);
+  }
+}
+
+/** Report for a viva the model could not grade. */
+export function failedEvaluation(rubric: Rubric): ExamStats {
+  return {
+    evaluationFailed: true,
+    rubricId: rubric.id,
+    feedback: "The evaluation could not be generated. Your transcript is saved; retry the evaluation from Past Attempts.",
+    strengths: [],
+    weaknesses: [],
+    topicsCovered: [],
+    weakChapters: []
+  };
+}
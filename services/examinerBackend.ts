@@ -0,0 +1,84 @@
+
+import { ChecklistItem, ClassLevel, DifficultyLevel, ExamMode, ExamStats, ObservationTable, QuestionReview, Rubric, TranscriptionEntry } from '../types';
+import { geminiBackend } from './geminiBackend';
+import { mockBackend } from './mockBackend';
+
+export interface ExaminerConnectOptions {
+  mode: ExamMode;
+  systemInstruction: string;
+  voiceName: string;
+  classLevel: ClassLevel;
+  syllabusUnitIds: string[];
+  /** Set for a practical viva on this experiment. */
+  experimentId?: string;
+  /** Handle from a previous `onResumptionHandle`, to continue that session with its context intact. */
+  resumeHandle?: string;
+}
+
+/**
+ * Callbacks a backend fires while a session is open. Transcription chunks accumulate until
+ * `onTurnComplete`, mirroring the Live API; text-mode replies arrive as a single output chunk.
+ */
+export interface ExaminerEvents {
+  onOpen: () => void;
+  /** Base64 PCM16 mono at 24 kHz. */
+  onAudio: (base64Pcm: string) => void;
+  onInputTranscription: (text: string) => void;
+  onOutputTranscription: (text: string) => void;
+  onTurnComplete: () => void;
+  onInterrupted: () => void;
+  /** Latest handle with which a dropped session can be resumed. */
+  onResumptionHandle: (handle: string) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface ExaminerSession {
+  /** Base64 PCM16 mono at 16 kHz. */
+  sendAudio: (base64Pcm: string) => void;
+  /** Tells the examiner the candidate's microphone has gone quiet (VAD or push-to-talk release). */
+  endAudioStream: () => void;
+  /** Base64 JPEG frame. */
+  sendImage: (base64Jpeg: string) => void;
+  sendText: (text: string) => void;
+  /** Sends a still image and a prompt as a turn of its own, asking for a reply. */
+  sendImageTurn: (base64Image: string, mimeType: string, text: string) => void;
+  /** Adds a silent examiner note to the context without asking for a reply. */
+  addContext: (text: string) => void;
+  close: () => void;
+}
+
+export interface ExaminerBackend {
+  id: 'gemini' | 'mock';
+  connect: (options: ExaminerConnectOptions, events: ExaminerEvents) => Promise<ExaminerSession>;
+  generateReport: (
+    transcript: TranscriptionEntry[],
+    classLevel: ClassLevel,
+    difficulty: DifficultyLevel,
+    syllabusUnitIds: string[],
+    rubric: Rubric,
+    experimentId?: string
+  ) => Promise<ExamStats>;
+  analyseQuestions: (
+    transcript: TranscriptionEntry[],
+    classLevel: ClassLevel,
+    syllabusUnitIds: string[],
+    /** Set for a practical viva, so questions are attributed to the experiment's chapter. */
+    experimentId?: string
+  ) => Promise<QuestionReview[]>;
+  /** Marks one answer out of QUESTION_MAX_MARKS mid-exam; null when it could not be scored. */
+  scoreAnswer: (question: string, answer: string, classLevel: ClassLevel) => Promise<number | null>;
+  /** Marks which points of a practical viva's checklist the candidate addressed; empty when it could not be assessed. */
+  assessPractical: (transcript: TranscriptionEntry[], experimentId: string, classLevel: ClassLevel) => Promise<ChecklistItem[]>;
+  /** Transcribes a photographed observation table; null when it could not be read. */
+  readObservationTable: (base64Image: string, mimeType: string) => Promise<ObservationTable | null>;
+}
+
+/**
+ * Picks the examiner backend for this page load: the offline mock when the URL carries
+ * `?backend=mock` or the build sets EXAMINER_BACKEND=mock, otherwise Gemini.
+ */
+export function getExaminerBackend(): ExaminerBackend {
+  const requested = new URLSearchParams(window.location.search).get('backend') ?? process.env.EXAMINER_BACKEND;
+  return requested === 'mock' ? mockBackend : geminiBackend;
+}
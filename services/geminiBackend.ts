@@ -0,0 +1,120 @@
+
+import { GoogleGenAI, LiveServerMessage, Modality, Part } from '@google/genai';
+import { ExamMode } from '../types';
+import { ExaminerBackend, ExaminerConnectOptions, ExaminerEvents, ExaminerSession } from './examinerBackend';
+import { generateReport } from './evaluation';
+import { analyseQuestions } from './questionAnalysis';
+import { scoreAnswer } from './answerScoring';
+import { assessPractical } from './practicalAssessment';
+import { readObservationTable } from './observationReading';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+const TEXT_MODEL = 'gemini-3-flash-preview';
+
+function connectText(ai: GoogleGenAI, options: ExaminerConnectOptions, events: ExaminerEvents): ExaminerSession {
+  const chat = ai.chats.create({
+    model: TEXT_MODEL,
+    config: { systemInstruction: options.systemInstruction }
+  });
+  let isClosed = false;
+  // Chats have no silent context channel, so notes ride along with the next message.
+  let pendingNotes: string[] = [];
+
+  const send = (parts: Part[]) => {
+    const message = pendingNotes.length > 0 ? [{ text: `${pendingNotes.join('\n')}\n\n` }, ...parts] : parts;
+    pendingNotes = [];
+    chat.sendMessage({ message })
+      .then((response) => {
+        if (isClosed) return;
+        const reply = response.text?.trim();
+        if (reply) events.onOutputTranscription(reply);
+        events.onTurnComplete();
+      })
+      .catch((error) => {
+        if (!isClosed) events.onError(error);
+      });
+  };
+
+  queueMicrotask(events.onOpen);
+  return {
+    sendAudio: () => {},
+    endAudioStream: () => {},
+    sendImage: () => {},
+    sendText: (text) => send([{ text }]),
+    sendImageTurn: (data, mimeType, text) => send([{ inlineData: { data, mimeType } }, { text }]),
+    addContext: (text) => { pendingNotes.push(text); },
+    close: () => {
+      if (isClosed) return;
+      isClosed = true;
+      events.onClose();
+    }
+  };
+}
+
+async function connectLive(ai: GoogleGenAI, options: ExaminerConnectOptions, events: ExaminerEvents): Promise<ExaminerSession> {
+  const session = await ai.live.connect({
+    model: LIVE_MODEL,
+    callbacks: {
+      onopen: events.onOpen,
+      onmessage: (message: LiveServerMessage) => {
+        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) events.onAudio(base64Audio);
+
+        if (message.serverContent?.outputTranscription?.text) {
+          events.onOutputTranscription(message.serverContent.outputTranscription.text);
+        } else if (message.serverContent?.inputTranscription?.text) {
+          events.onInputTranscription(message.serverContent.inputTranscription.text);
+        }
+
+        if (message.serverContent?.turnComplete) events.onTurnComplete();
+        if (message.serverContent?.interrupted) events.onInterrupted();
+        if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+          events.onResumptionHandle(message.sessionResumptionUpdate.newHandle);
+        }
+      },
+      onerror: (e: ErrorEvent) => events.onError(e),
+      onclose: () => events.onClose()
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      thinkingConfig: { thinkingBudget: 0 },
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: {
+            voiceName: options.voiceName
+          }
+        }
+      },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      sessionResumption: { handle: options.resumeHandle },
+      systemInstruction: options.systemInstruction
+    }
+  });
+
+  return {
+    sendAudio: (data) => session.sendRealtimeInput({ media: { data, mimeType: 'audio/pcm;rate=16000' } }),
+    endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+    sendImage: (data) => session.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } }),
+    sendText: (text) => session.sendClientContent({ turns: text, turnComplete: true }),
+    sendImageTurn: (data, mimeType, text) => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ inlineData: { data, mimeType } }, { text }] }],
+      turnComplete: true
+    }),
+    addContext: (text) => session.sendClientContent({ turns: text, turnComplete: false }),
+    close: () => session.close()
+  };
+}
+
+export const geminiBackend: ExaminerBackend = {
+  id: 'gemini',
+  connect: async (options, events) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return options.mode === ExamMode.TEXT ? connectText(ai, options, events) : connectLive(ai, options, events);
+  },
+  generateReport,
+  analyseQuestions,
+  scoreAnswer,
+  assessPractical,
+  readObservationTable
+};
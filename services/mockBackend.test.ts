@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockBackend } from './mockBackend';
+import { ExaminerConnectOptions, ExaminerEvents } from './examinerBackend';
+import { DEFAULT_RUBRIC } from '../data/rubric';
+import { ClassLevel, DifficultyLevel, ExamMode, TranscriptionEntry } from '../types';
+
+/** Records a session's events as a transcript, the way ExamRoom assembles one. */
+function recordSession() {
+  const transcript: TranscriptionEntry[] = [];
+  const handles: string[] = [];
+  let pending = '';
+  const events = {
+    opened: 0,
+    closed: 0,
+    onOpen: () => { events.opened++; },
+    onAudio: () => {},
+    onInputTranscription: (text: string) => transcript.push({ role: 'user', text, timestamp: Date.now() }),
+    onOutputTranscription: (text: string) => { pending += text; },
+    onTurnComplete: () => {
+      transcript.push({ role: 'examiner', text: pending, timestamp: Date.now() });
+      pending = '';
+    },
+    onInterrupted: () => {},
+    onResumptionHandle: (handle: string) => { handles.push(handle); },
+    onClose: () => { events.closed++; },
+    onError: () => {}
+  } satisfies ExaminerEvents & { opened: number; closed: number };
+  return { transcript, handles, events };
+}
+
+const options = (overrides: Partial<ExaminerConnectOptions> = {}): ExaminerConnectOptions => ({
+  mode: ExamMode.TEXT,
+  systemInstruction: '',
+  voiceName: 'Kore',
+  classLevel: ClassLevel.XI,
+  syllabusUnitIds: ['xi-u03'],
+  ...overrides
+});
+
+describe('mock examiner backend', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('runs a text viva and grades it against the given rubric', async () => {
+    const { transcript, handles, events } = recordSession();
+    const session = await mockBackend.connect(options(), events);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(events.opened).toBe(1);
+    expect(transcript).toEqual([]);
+
+    for (const answer of ['Ready, sir.', 'Force equals rate of change of momentum, sir, so F = dp/dt and for constant mass F = ma.']) {
+      transcript.push({ role: 'user', text: answer, timestamp: Date.now() });
+      session.sendText(answer);
+      await vi.advanceTimersByTimeAsync(600);
+    }
+    session.close();
+    expect(events.closed).toBe(1);
+    expect(handles).toEqual(['mock-1', 'mock-2']);
+    expect(transcript.filter(t => t.role === 'examiner')).toHaveLength(2);
+    expect(transcript[1].text).toContain("Newton's laws of motion");
+
+    const stats = await mockBackend.generateReport(transcript, ClassLevel.XI, DifficultyLevel.MEDIUM, ['xi-u03'], DEFAULT_RUBRIC);
+    expect(stats.rubricId).toBe(DEFAULT_RUBRIC.id);
+    expect(stats.criteria?.map(c => c.criterionId)).toEqual(DEFAULT_RUBRIC.criteria.map(c => c.id));
+    expect(stats.grade).toBeDefined();
+    expect(stats.topicsCovered).toEqual(['xi-ch04']);
+  });
+
+  it('plays both sides of a voice viva and stops when closed', async () => {
+    const { transcript, events } = recordSession();
+    const session = await mockBackend.connect(options({ mode: ExamMode.VOICE }), events);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(transcript.map(t => t.role)).toEqual(['examiner']);
+
+    await vi.advanceTimersByTimeAsync(6000 * 2);
+    expect(transcript.map(t => t.role)).toEqual(['examiner', 'user', 'examiner', 'user', 'examiner']);
+
+    session.close();
+    await vi.advanceTimersByTimeAsync(6000 * 2);
+    expect(transcript).toHaveLength(5);
+  });
+
+  it('resumes from a resumption handle at the next scripted question', async () => {
+    const first = recordSession();
+    const dropped = await mockBackend.connect(options({ mode: ExamMode.VOICE }), first.events);
+    await vi.advanceTimersByTimeAsync(600 + 6000);
+    dropped.close();
+
+    const resumed = recordSession();
+    const session = await mockBackend.connect(options({ mode: ExamMode.VOICE, resumeHandle: first.handles[0] }), resumed.events);
+    await vi.advanceTimersByTimeAsync(600);
+    session.close();
+    expect(resumed.transcript[0].text).toBe(first.transcript[2].text);
+  });
+
+  it('attributes practical viva questions to the experiment, not the selected units', async () => {
+    const { transcript, events } = recordSession();
+    const session = await mockBackend.connect(options({ mode: ExamMode.VOICE, experimentId: 'vernier-callipers' }), events);
+    await vi.advanceTimersByTimeAsync(600 + 6000 * 3);
+    session.close();
+
+    const questions = await mockBackend.analyseQuestions(transcript, ClassLevel.XI, ['xi-u03'], 'vernier-callipers');
+    expect(questions).toHaveLength(4);
+    expect(new Set(questions.map(q => q.chapterId))).toEqual(new Set(['xi-ch01']));
+    expect(questions.every(q => !q.idealAnswer.startsWith('No model answer'))).toBe(true);
+
+    const stats = await mockBackend.generateReport(transcript, ClassLevel.XI, DifficultyLevel.MEDIUM, ['xi-u03'], DEFAULT_RUBRIC, 'vernier-callipers');
+    expect(stats.topicsCovered).toEqual(['xi-ch01']);
+
+    const checklist = await mockBackend.assessPractical(transcript, 'vernier-callipers', ClassLevel.XI);
+    expect(checklist.length).toBeGreaterThan(0);
+    expect(checklist.some(item => item.addressed && item.evidence)).toBe(true);
+  });
+
+  it('comments on a shown diagram in its own turn', async () => {
+    const { transcript, events } = recordSession();
+    const session = await mockBackend.connect(options(), events);
+    await vi.advanceTimersByTimeAsync(600);
+    session.sendImageTurn('AAAA', 'image/jpeg', 'Here is my ray diagram.');
+    await vi.advanceTimersByTimeAsync(600);
+    session.close();
+    expect(transcript[0].text).toContain('diagram');
+  });
+});
@@ -0,0 +1,208 @@
+
+import { ChecklistItem, ClassLevel, DifficultyLevel, ExamMode, ExamStats, ObservationTable, QuestionReview, Rubric, TranscriptionEntry } from '../types';
+import { ExaminerBackend, ExaminerConnectOptions, ExaminerEvents, ExaminerSession } from './examinerBackend';
+import { findExperiment, getSelectedUnits } from '../data/syllabus';
+import { PRACTICAL_ASPECTS, buildPracticalChecklist, getPracticalGuide } from '../data/practicals';
+import { applyRubric, weightedScore, gradeForScore } from '../utils/scoring';
+import { QUESTION_MAX_MARKS } from './questionAnalysis';
+
+// Delay before a scripted examiner reply, and the interval at which voice mode
+// replays a canned candidate answer followed by the next question.
+const MOCK_REPLY_DELAY_MS = 600;
+const MOCK_VOICE_TURN_MS = 6000;
+const MOCK_HANDLE_PREFIX = 'mock-';
+const MOCK_DIAGRAM_COMMENT = 'Beta, two labels are missing from your diagram and the arrows on the rays are not marked. Label every part and show the direction of light or current.';
+
+interface ScriptedQuestion {
+  chapterId: string;
+  question: string;
+  sampleAnswer: string;
+  idealAnswer: string;
+}
+
+/** One question per practical aspect of the experiment, in the usual viva order. */
+function buildPracticalScript(experimentId: string): ScriptedQuestion[] {
+  const found = findExperiment(experimentId);
+  if (!found) return [];
+  const { chapter, experiment } = found;
+  const guide = getPracticalGuide(experiment);
+  return PRACTICAL_ASPECTS.map(aspect => ({
+    chapterId: chapter.id,
+    question: `Beta, for the experiment "${experiment.title}", what is the ${aspect.label.toLowerCase()}?`,
+    sampleAnswer: `Sir, the ${aspect.label.toLowerCase()} of this experiment: ${aspect.id === 'apparatus' ? guide.apparatus.join(', ') : guide.aim}`,
+    idealAnswer: `Cover the ${aspect.label.toLowerCase()} precisely. ${guide.aim}`
+  }));
+}
+
+/** Deterministic question script built from the selected chapters' topics, or the practical's aspects. */
+function buildScript(classLevel: ClassLevel, syllabusUnitIds: string[], experimentId?: string): ScriptedQuestion[] {
+  const practical = experimentId ? buildPracticalScript(experimentId) : [];
+  if (practical.length > 0) return practical;
+  return getSelectedUnits(classLevel, syllabusUnitIds).flatMap(unit =>
+    unit.chapters.flatMap(chapter => chapter.topics.map(topic => ({
+      chapterId: chapter.id,
+      question: `Beta, explain ${topic} — what is the underlying principle?`,
+      sampleAnswer: `Sir, ${topic} is part of ${chapter.title}. I will state the definition and the formula.`,
+      idealAnswer: `State ${topic} precisely, write the governing relation with SI units, and give one laboratory or real-life example from ${chapter.title}.`
+    })))
+  );
+}
+
+function answerMarks(answer: string): number {
+  const words = answer.trim().split(/\s+/).filter(Boolean).length;
+  if (words >= 20) return 5;
+  if (words >= 10) return 4;
+  if (words >= 5) return 3;
+  return words > 0 ? 2 : 0;
+}
+
+/** Pairs each examiner turn with the candidate turn that follows it. */
+function pairTurns(transcript: TranscriptionEntry[]) {
+  const pairs: { question: TranscriptionEntry; answer?: TranscriptionEntry }[] = [];
+  transcript.forEach((entry, i) => {
+    if (entry.role !== 'examiner') return;
+    const next = transcript[i + 1];
+    pairs.push({ question: entry, answer: next?.role === 'user' ? next : undefined });
+  });
+  return pairs;
+}
+
+function connect(options: ExaminerConnectOptions, events: ExaminerEvents): Promise<ExaminerSession> {
+  const script = buildScript(options.classLevel, options.syllabusUnitIds, options.experimentId);
+  const timers = new Set<number>();
+  // The resumption handle is simply the script position, so a resumed session carries on where it dropped.
+  let cursor = options.resumeHandle?.startsWith(MOCK_HANDLE_PREFIX)
+    ? Number(options.resumeHandle.slice(MOCK_HANDLE_PREFIX.length)) || 0
+    : 0;
+  let voiceLoop: number | null = null;
+  let isClosed = false;
+
+  const later = (fn: () => void, ms: number) => {
+    const id = window.setTimeout(() => {
+      timers.delete(id);
+      if (!isClosed) fn();
+    }, ms);
+    timers.add(id);
+  };
+
+  const askNext = () => {
+    const item = script[cursor % script.length];
+    cursor++;
+    events.onOutputTranscription(item.question);
+    events.onTurnComplete();
+    events.onResumptionHandle(`${MOCK_HANDLE_PREFIX}${cursor}`);
+  };
+
+  later(() => {
+    events.onOpen();
+    if (options.mode === ExamMode.VOICE) {
+      askNext();
+      voiceLoop = window.setInterval(() => {
+        if (isClosed) return;
+        events.onInputTranscription(script[(cursor - 1) % script.length].sampleAnswer);
+        askNext();
+      }, MOCK_VOICE_TURN_MS);
+    }
+  }, MOCK_REPLY_DELAY_MS);
+
+  return Promise.resolve({
+    sendAudio: () => {},
+    endAudioStream: () => {},
+    sendImage: () => {},
+    sendText: () => later(askNext, MOCK_REPLY_DELAY_MS),
+    sendImageTurn: () => later(() => {
+      events.onOutputTranscription(MOCK_DIAGRAM_COMMENT);
+      events.onTurnComplete();
+    }, MOCK_REPLY_DELAY_MS),
+    addContext: () => {},
+    close: () => {
+      if (isClosed) return;
+      isClosed = true;
+      timers.forEach(id => clearTimeout(id));
+      timers.clear();
+      if (voiceLoop) clearInterval(voiceLoop);
+      events.onClose();
+    }
+  });
+}
+
+async function analyseQuestions(transcript: TranscriptionEntry[], classLevel: ClassLevel, syllabusUnitIds: string[], experimentId?: string): Promise<QuestionReview[]> {
+  const script = buildScript(classLevel, syllabusUnitIds, experimentId);
+  return pairTurns(transcript).map(({ question, answer }) => {
+    const scripted = script.find(s => s.question === question.text);
+    const candidateAnswer = answer?.text ?? '';
+    return {
+      question: question.text,
+      candidateAnswer,
+      followUps: [],
+      chapterId: scripted?.chapterId ?? script[0]?.chapterId ?? '',
+      marks: answerMarks(candidateAnswer),
+      maxMarks: QUESTION_MAX_MARKS,
+      idealAnswer: scripted?.idealAnswer ?? 'No model answer available offline.',
+      comment: candidateAnswer ? 'Scored offline by answer length.' : 'Question was not answered.',
+      askedAt: question.timestamp,
+      examinerId: question.examinerId
+    };
+  });
+}
+
+async function generateReport(transcript: TranscriptionEntry[], classLevel: ClassLevel, _difficulty: DifficultyLevel, syllabusUnitIds: string[], rubric: Rubric, experimentId?: string): Promise<ExamStats> {
+  const questions = await analyseQuestions(transcript, classLevel, syllabusUnitIds, experimentId);
+  const ratio = questions.length > 0
+    ? questions.reduce((sum, q) => sum + q.marks / q.maxMarks, 0) / questions.length
+    : 0;
+  const criteria = applyRubric(rubric, rubric.criteria.map(c => ({
+    criterionId: c.id,
+    marks: Math.round(ratio * c.maxMarks),
+    justification: 'Estimated offline from answer completeness.',
+    evidence: transcript.filter(t => t.role === 'user').slice(0, 1).map(t => t.text)
+  })));
+  const score = weightedScore(criteria);
+  const chapters = [...new Set(questions.map(q => q.chapterId).filter(Boolean))];
+
+  return {
+    grade: gradeForScore(rubric, score),
+    score,
+    rubricId: rubric.id,
+    criteria,
+    feedback: 'Offline mock evaluation. Marks reflect answer length only and are intended for testing the report flow.',
+    strengths: questions.some(q => q.marks >= 4) ? ['Answered in full sentences'] : [],
+    weaknesses: questions.some(q => q.marks <= 2) ? ['Some answers were too brief'] : [],
+    topicsCovered: chapters,
+    weakChapters: [...new Set(questions.filter(q => q.marks <= 2).map(q => q.chapterId))]
+  };
+}
+
+/** Counts a checklist item as addressed when the candidate used any significant word of it. */
+async function assessPractical(transcript: TranscriptionEntry[], experimentId: string): Promise<ChecklistItem[]> {
+  const answers = transcript.filter(t => t.role === 'user').map(t => t.text.toLowerCase());
+  return buildPracticalChecklist(experimentId).map(item => {
+    const words = item.label.toLowerCase().split(/[^a-z]+/).filter(w => w.length > (item.category === 'aspect' ? 2 : 3));
+    const evidence = answers.find(text => words.some(w => text.includes(w)));
+    return evidence ? { ...item, addressed: true, evidence } : item;
+  });
+}
+
+/** A fixed pendulum table with a wrong mean and an over-precise result, whatever the photo shows. */
+async function readObservationTable(): Promise<ObservationTable> {
+  return {
+    columns: [
+      { name: 'Length L', unit: 'cm', leastCount: 0.1 },
+      { name: 'Time for 20 oscillations', unit: 's', leastCount: 0.1 }
+    ],
+    rows: [['60.0', '31.2'], ['80.0', '35.9'], ['100.0', '40.2']],
+    means: ['', '36.1'],
+    result: { value: '9.7834', unit: 'm/s²', standardValue: '9.8', percentError: '0.17' }
+  };
+}
+
+/** Scripted offline examiner for UI work and CI; replays canned questions without any network access. */
+export const mockBackend: ExaminerBackend = {
+  id: 'mock',
+  connect,
+  generateReport,
+  analyseQuestions,
+  scoreAnswer: async (_question, answer) => answerMarks(answer),
+  assessPractical,
+  readObservationTable
+};
@@ -0,0 +1,65 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { ObservationTable } from '../types';
+
+/**
+ * Transcribes a photographed observation table into structured readings, copying each value
+ * exactly as written. Returns null on failure so the candidate can type the table in instead.
+ */
+export async function readObservationTable(base64Image: string, mimeType: string): Promise<ObservationTable | null> {
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: {
+        parts: [
+          { inlineData: { data: base64Image, mimeType } },
+          { text: `This is a page of a Physics practical record. Transcribe its observation table.
+            Copy every reading character for character, keeping trailing zeros; never correct or compute anything.
+            Use an empty string for any cell, mean or result that is not written on the page.` }
+        ]
+      },
+      config: {
+        systemInstruction: "You transcribe handwritten laboratory records faithfully, mistakes included.",
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            columns: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  unit: { type: Type.STRING },
+                  leastCount: { type: Type.STRING, description: "Least count written for this column, or an empty string" },
+                  mean: { type: Type.STRING, description: "Mean written below this column, or an empty string" }
+                },
+                required: ["name", "unit", "leastCount", "mean"]
+              }
+            },
+            rows: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.STRING } } },
+            resultValue: { type: Type.STRING },
+            resultUnit: { type: Type.STRING },
+            percentError: { type: Type.STRING }
+          },
+          required: ["columns", "rows", "resultValue", "resultUnit", "percentError"]
+        }
+      }
+    });
+    const data = JSON.parse(response.text || '{}');
+    const columns: { name: string; unit: string; leastCount: string; mean: string }[] = data.columns ?? [];
+    if (columns.length === 0) return null;
+    return {
+      columns: columns.map(c => {
+        const leastCount = Number(c.leastCount);
+        return { name: c.name, unit: c.unit, leastCount: c.leastCount && leastCount > 0 ? leastCount : undefined };
+      }),
+      rows: (data.rows ?? []).map((row: string[]) => columns.map((_, i) => row[i] ?? '')),
+      means: columns.map(c => c.mean),
+      result: data.resultValue ? { value: data.resultValue, unit: data.resultUnit, percentError: data.percentError } : undefined
+    };
+  } catch (error) {
+    console.error("Observation table reading failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,111 @@
+
+import { LanguageMix, Persona, PersonaStrictness } from '../types';
+import { BUILT_IN_PERSONAS, PREBUILT_VOICES } from '../data/personas';
+import { downloadFile } from '../utils/reportExport';
+import { isNumber, isObject, isOneOf, isString } from '../utils/jsonGuards';
+
+// Custom personas are few and needed synchronously when the exam room mounts, so they live in
+// localStorage rather than the IndexedDB attempt archive.
+const STORAGE_KEY = 'physics-viva-personas';
+
+export const PERSONA_FORMAT = 'physics-viva-personas';
+export const PERSONA_FORMAT_VERSION = 1;
+
+export interface PersonaExport {
+  format: typeof PERSONA_FORMAT;
+  version: number;
+  personas: Persona[];
+}
+
+export function isBuiltInPersona(id: string): boolean {
+  return BUILT_IN_PERSONAS.some(p => p.id === id);
+}
+
+export function createPersonaId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const isVoice = isOneOf(PREBUILT_VOICES);
+const isStrictness = isOneOf(Object.values(PersonaStrictness));
+const isLanguageMix = isOneOf(Object.values(LanguageMix));
+
+/** Description and icon may be missing; `normalisePersona` fills them in. */
+function isValidPersona(value: unknown): value is Persona {
+  return isObject(value)
+    && isString(value.id)
+    && isString(value.label) && value.label.trim() !== ''
+    && isString(value.instruction) && value.instruction.trim() !== ''
+    && isVoice(value.voiceName)
+    && (value.strictness === undefined || isStrictness(value.strictness))
+    && (value.languageMix === undefined || isLanguageMix(value.languageMix));
+}
+
+function normalisePersona(p: Persona): Persona {
+  return {
+    id: p.id,
+    label: p.label.trim(),
+    description: typeof p.description === 'string' ? p.description : '',
+    icon: typeof p.icon === 'string' && p.icon ? p.icon : '👤',
+    instruction: p.instruction.trim(),
+    voiceName: p.voiceName,
+    strictness: p.strictness,
+    languageMix: p.languageMix
+  };
+}
+
+export function loadCustomPersonas(): Persona[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isValidPersona).map(normalisePersona) : [];
+  } catch (error) {
+    console.error("Failed to read custom personas:", error);
+    return [];
+  }
+}
+
+export function saveCustomPersonas(personas: Persona[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(personas.filter(p => !isBuiltInPersona(p.id))));
+}
+
+/** Built-in examiners followed by the school's own. */
+export function getAllPersonas(): Persona[] {
+  return [...BUILT_IN_PERSONAS, ...loadCustomPersonas()];
+}
+
+/** Looks a persona up by ID, falling back to the first built-in when it has since been deleted. */
+export function findPersona(id: string | undefined, personas: Persona[] = getAllPersonas()): Persona {
+  return personas.find(p => p.id === id) ?? BUILT_IN_PERSONAS[0];
+}
+
+export function downloadPersonas(personas: Persona[]) {
+  const data: PersonaExport = { format: PERSONA_FORMAT, version: PERSONA_FORMAT_VERSION, personas };
+  downloadFile(JSON.stringify(data, null, 2), 'examiner-personas.json', 'application/json');
+}
+
+/**
+ * Parses and validates a persona export, throwing an Error describing the first problem found.
+ * Imported personas get fresh IDs so they never overwrite built-ins or existing custom personas.
+ */
+export function parsePersonaImport(json: string): Persona[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== PERSONA_FORMAT) {
+    throw new Error('File is not a Physics Viva persona export.');
+  }
+  if (isNumber(data.version) && data.version > PERSONA_FORMAT_VERSION) {
+    throw new Error(`Persona format version ${data.version} is newer than this app supports.`);
+  }
+  if (!Array.isArray(data.personas) || data.personas.length === 0) {
+    throw new Error('File contains no personas.');
+  }
+  const personas: unknown[] = data.personas;
+  const invalid = personas.findIndex(p => !isValidPersona(p));
+  if (invalid !== -1) {
+    throw new Error(`Persona ${invalid + 1} is missing a name or instruction, or uses an unknown voice, strictness or language.`);
+  }
+  return personas.filter(isValidPersona).map(p => ({ ...normalisePersona(p), id: createPersonaId() }));
+}
@@ -0,0 +1,60 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { ChecklistItem, ClassLevel, TranscriptionEntry } from '../types';
+import { buildPracticalChecklist } from '../data/practicals';
+import { findExperiment } from '../data/syllabus';
+
+/**
+ * Works out which checklist points of a practical viva the candidate addressed, quoting their
+ * words as evidence. Returns an empty list on failure so the rest of the report is unaffected.
+ */
+export async function assessPractical(
+  transcript: TranscriptionEntry[],
+  experimentId: string,
+  classLevel: ClassLevel
+): Promise<ChecklistItem[]> {
+  const checklist = buildPracticalChecklist(experimentId);
+  const experiment = findExperiment(experimentId)?.experiment;
+  if (!experiment || checklist.length === 0 || transcript.length === 0) return [];
+
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const dialogue = transcript
+      .filter(t => t.role !== 'system')
+      .map(t => `[${t.role === 'user' ? 'Candidate' : 'Examiner'}] ${t.text}`)
+      .join('\n');
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Class ${classLevel} Physics practical viva on: ${experiment.title}.
+        For each checklist item, decide whether the candidate addressed it correctly in their own answers.
+        An item the examiner mentioned but the candidate never explained is not addressed.
+        Checklist (ID: item):
+        ${checklist.map(item => `${item.id}: ${item.label}`).join('\n')}
+        Transcript:
+        ${dialogue}`,
+      config: {
+        systemInstruction: "You are a Physics Board Examiner auditing a practical viva against its checklist. Quote the candidate faithfully.",
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING, enum: checklist.map(item => item.id) },
+              addressed: { type: Type.BOOLEAN },
+              evidence: { type: Type.STRING, description: "Candidate's words covering the item, or an empty string" }
+            },
+            required: ["id", "addressed", "evidence"]
+          }
+        }
+      }
+    });
+    const marks = JSON.parse(response.text || '[]') as { id: string; addressed: boolean; evidence: string }[];
+    return checklist.map(item => {
+      const mark = marks.find(m => m.id === item.id);
+      return mark?.addressed ? { ...item, addressed: true, evidence: mark.evidence || undefined } : item;
+    });
+  } catch (error) {
+    console.error("Practical checklist assessment failed:", error);
+    return [];
+  }
+}
@@ -0,0 +1,89 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { ClassLevel, QuestionReview, TranscriptionEntry } from '../types';
+import { getSelectedUnits, formatSyllabusForPrompt, findExperiment } from '../data/syllabus';
+
+export const QUESTION_MAX_MARKS = 5;
+
+interface RawQuestion extends Omit<QuestionReview, 'maxMarks' | 'askedAt' | 'examinerId'> {
+  firstEntryIndex: number;
+}
+
+/**
+ * Splits a viva transcript into examiner questions with the candidate's answer and any
+ * follow-ups, marks each one and supplies a model answer. Returns an empty list on failure
+ * so the rest of the report is unaffected.
+ */
+export async function analyseQuestions(
+  transcript: TranscriptionEntry[],
+  classLevel: ClassLevel,
+  syllabusUnitIds: string[],
+  experimentId?: string
+): Promise<QuestionReview[]> {
+  if (transcript.length === 0) return [];
+
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const chapterIds = getSelectedUnits(classLevel, syllabusUnitIds).flatMap(u => u.chapters.map(ch => ch.id));
+    const practical = experimentId ? findExperiment(experimentId) : undefined;
+    const numbered = transcript.map((t, i) => `#${i} [${t.role === 'user' ? 'Candidate' : t.senderName ?? 'Examiner'}] ${t.text}${t.image ? ' [diagram shown]' : ''}`).join('\n');
+    const prompt = `Segment this Class ${classLevel} Physics Viva transcript into individual questions.
+      Each item is one main examiner question, the candidate's answer, and any follow-up questions on the same point.
+      Examiner turns often mix feedback with the next question; extract only the question.
+      On a panel viva several named examiners take turns; never merge questions asked by different examiners.
+      ${practical ? `This was a practical viva on "${practical.experiment.title}"; questions about the experiment belong to chapter ${practical.chapter.id}.` : ''}
+      Assign each item the closest syllabus chapter ID from:
+      ${formatSyllabusForPrompt(classLevel, syllabusUnitIds)}
+      Mark each item out of ${QUESTION_MAX_MARKS} and write the ideal board-level answer a topper would give.
+      Transcript (turn number first):
+      ${numbered}`;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: prompt,
+      config: {
+        systemInstruction: "You are a professional Physics Board Examiner reviewing a recorded viva question by question. Quote the candidate faithfully; do not improve their answers.",
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              firstEntryIndex: { type: Type.INTEGER, description: "Turn number where the question was asked" },
+              question: { type: Type.STRING },
+              candidateAnswer: { type: Type.STRING, description: "Candidate's answer, or an empty string if unanswered" },
+              followUps: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    question: { type: Type.STRING },
+                    answer: { type: Type.STRING }
+                  },
+                  required: ["question", "answer"]
+                }
+              },
+              chapterId: { type: Type.STRING, enum: chapterIds },
+              marks: { type: Type.NUMBER, description: `Marks out of ${QUESTION_MAX_MARKS}` },
+              idealAnswer: { type: Type.STRING },
+              comment: { type: Type.STRING, description: "One line on what was missing or wrong" }
+            },
+            required: ["firstEntryIndex", "question", "candidateAnswer", "followUps", "chapterId", "marks", "idealAnswer", "comment"]
+          }
+        }
+      }
+    });
+
+    const items = JSON.parse(response.text || '[]') as RawQuestion[];
+    return items.map(({ firstEntryIndex, marks, ...item }) => ({
+      ...item,
+      marks: Math.min(QUESTION_MAX_MARKS, Math.max(0, Number(marks) || 0)),
+      maxMarks: QUESTION_MAX_MARKS,
+      askedAt: transcript[firstEntryIndex]?.timestamp,
+      examinerId: transcript[firstEntryIndex]?.examinerId
+    }));
+  } catch (error) {
+    console.error("Question analysis failed:", error);
+    return [];
+  }
+}
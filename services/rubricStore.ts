@@ -0,0 +1,94 @@
+import { GradeBand, Rubric, RubricCriterion } from '../types';
+import { DEFAULT_RUBRIC } from '../data/rubric';
+import { isNumber, isObject, isString } from '../utils/jsonGuards';
+
+// Like custom personas, the rubric is small and read synchronously when a report is generated.
+const STORAGE_KEY = 'physics-viva-rubric';
+
+function isValidCriterion(value: unknown): value is RubricCriterion {
+  return isObject(value)
+    && isString(value.id) && value.id !== ''
+    && isString(value.label) && value.label.trim() !== ''
+    && isString(value.description)
+    && isNumber(value.weight) && value.weight >= 0
+    && isNumber(value.maxMarks) && value.maxMarks > 0;
+}
+
+function isValidBand(value: unknown): value is GradeBand {
+  return isObject(value)
+    && isString(value.grade) && value.grade.trim() !== ''
+    && isNumber(value.minPercent) && value.minPercent >= 0 && value.minPercent <= 100;
+}
+
+/** The outline of a stored rubric; `validateRubric` then checks each criterion and band. */
+function isRubricShape(value: unknown): value is Rubric {
+  return isObject(value)
+    && isString(value.id)
+    && isString(value.name)
+    && Array.isArray(value.criteria)
+    && Array.isArray(value.gradeBands);
+}
+
+/** Describes the first problem with a rubric, or returns null when it can be used for grading. */
+export function validateRubric(rubric: Rubric): string | null {
+  if (rubric.name.trim() === '') return 'Give the rubric a name.';
+  if (rubric.criteria.length === 0) return 'Add at least one criterion.';
+  const badCriterion = rubric.criteria.findIndex(c => !isValidCriterion(c));
+  if (badCriterion !== -1) return `Criterion ${badCriterion + 1} needs a label, a weight of 0 or more and maximum marks above 0.`;
+  if (rubric.criteria.every(c => c.weight === 0)) return 'At least one criterion must carry weight.';
+  if (rubric.gradeBands.length === 0) return 'Add at least one grade band.';
+  const badBand = rubric.gradeBands.findIndex(b => !isValidBand(b));
+  if (badBand !== -1) return `Grade band ${badBand + 1} needs a grade and a minimum between 0 and 100%.`;
+  if (!rubric.gradeBands.some(b => b.minPercent === 0)) return 'One grade band must start at 0% so every score gets a grade.';
+  return null;
+}
+
+/** Trims labels and sorts grade bands by descending minimum, as `gradeForScore` expects. */
+function normaliseRubric(rubric: Rubric): Rubric {
+  return {
+    id: rubric.id,
+    name: rubric.name.trim(),
+    criteria: rubric.criteria.map(c => ({ ...c, label: c.label.trim(), description: c.description.trim() })),
+    gradeBands: [...rubric.gradeBands]
+      .map(b => ({ grade: b.grade.trim(), minPercent: b.minPercent }))
+      .sort((a, b) => b.minPercent - a.minPercent)
+  };
+}
+
+export function createRubricId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** The rubric reports are graded against: the school's saved one, or the board default. */
+export function loadRubric(): Rubric {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (isRubricShape(stored) && validateRubric(stored) === null) {
+      return normaliseRubric(stored);
+    }
+  } catch (error) {
+    console.error("Failed to read the saved rubric:", error);
+  }
+  return DEFAULT_RUBRIC;
+}
+
+/**
+ * Saves an edited rubric under a fresh ID, so attempts graded before the edit still name the
+ * rubric they were graded against. Throws when the rubric is invalid.
+ */
+export function saveRubric(rubric: Rubric): Rubric {
+  const problem = validateRubric(rubric);
+  if (problem) throw new Error(problem);
+  const saved = { ...normaliseRubric(rubric), id: createRubricId() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+}
+
+export function resetRubric(): Rubric {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_RUBRIC;
+}
+
+export function isDefaultRubric(rubric: Rubric): boolean {
+  return rubric.id === DEFAULT_RUBRIC.id;
+}
@@ -0,0 +1,65 @@
+
+import { ExamAttempt } from '../types';
+
+const DB_NAME = 'physics-viva';
+const DB_VERSION = 1;
+const ATTEMPTS_STORE = 'attempts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+          const store = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTEMPTS_STORE, mode);
+    const request = action(tx.objectStore(ATTEMPTS_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createAttemptId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function saveAttempt(attempt: ExamAttempt): Promise<void> {
+  await runRequest('readwrite', store => store.put(attempt));
+}
+
+export async function getAttempt(id: string): Promise<ExamAttempt | undefined> {
+  return runRequest<ExamAttempt | undefined>('readonly', store => store.get(id));
+}
+
+/** Returns every saved attempt, newest first. */
+export async function listAttempts(): Promise<ExamAttempt[]> {
+  const attempts = await runRequest<ExamAttempt[]>('readonly', store => store.index('startedAt').getAll());
+  return attempts.reverse();
+}
+
+export async function deleteAttempt(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+}
@@ -1,10 +1,15 @@
 
 export interface TranscriptionEntry {
-  role: 'user' | 'examiner';
+  /** `system` entries are session markers such as an examiner handover, not spoken turns. */
+  role: 'user' | 'examiner' | 'system';
   text: string;
   timestamp: number;
   avatar?: string;
   senderName?: string;
+  /** Persona ID of the examiner who spoke; distinguishes panel members. */
+  examinerId?: string;
+  /** Data URL of a diagram the candidate showed in this turn. */
+  image?: string;
 }
 
 export enum DifficultyLevel {
@@ -18,6 +23,26 @@ export enum ClassLevel {
   XII = '12th'
 }
 
+export enum ExamMode {
+  VOICE = 'VOICE',
+  TEXT = 'TEXT'
+}
+
+/** How voice-mode microphone audio is released to the examiner. */
+export enum InputMode {
+  CONTINUOUS = 'CONTINUOUS',
+  VAD = 'VAD',
+  PUSH_TO_TALK = 'PUSH_TO_TALK'
+}
+
+/** How camera frames are streamed to the examiner in a voice viva; OFF leaves the camera closed. */
+export enum VisionProfile {
+  OFF = 'OFF',
+  LOW_BANDWIDTH = 'LOW_BANDWIDTH',
+  STANDARD = 'STANDARD',
+  DETAIL = 'DETAIL'
+}
+
 export enum ExamStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
@@ -26,11 +51,312 @@ export enum ExamStatus {
   ERROR = 'ERROR'
 }
 
-export interface ExamStats {
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  description: string;
+  weight: number;
+  maxMarks: number;
+}
+
+export interface GradeBand {
   grade: string;
-  score: number;
+  minPercent: number;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  criteria: RubricCriterion[];
+  gradeBands: GradeBand[];
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  label: string;
+  weight: number;
+  maxMarks: number;
+  marks: number;
+  justification: string;
+  evidence: string[];
+}
+
+/** Devices chosen in the pre-exam check; unset IDs fall back to the browser default. */
+export interface DeviceSelection {
+  audioInputId?: string;
+  videoInputId?: string;
+}
+
+export interface ExamSettings {
+  classLevel: ClassLevel;
+  difficulty: DifficultyLevel;
+  durationMinutes: number;
+  syllabusUnitIds: string[];
+  mode: ExamMode;
+  /** Text mode only: read examiner replies aloud with the browser's speech synthesis. */
+  speakReplies: boolean;
+  /** Voice mode only. */
+  inputMode: InputMode;
+  /** Voice mode only. */
+  visionProfile: VisionProfile;
+  devices?: DeviceSelection;
+  /** Score answers as they come in and move the examiner between levels, starting from `difficulty`. */
+  adaptiveDifficulty: boolean;
+  personaId: string;
+  /** Panel viva: two or more persona IDs taking turns, led by the first. */
+  panelPersonaIds?: string[];
+  /** Practical viva on this syllabus experiment instead of a theory viva. */
+  experimentId?: string;
+}
+
+export interface ExamStats {
+  /** Unset when `evaluationFailed`. */
+  grade?: string;
+  score?: number;
+  /** The model could not grade the viva; the attempt is kept but neither plotted nor certified. */
+  evaluationFailed?: boolean;
+  rubricId?: string;
+  criteria?: CriterionScore[];
   feedback: string;
   strengths: string[];
   weaknesses: string[];
+  /** Syllabus chapter IDs; attempts archived before the catalogue existed hold free-text topics. */
   topicsCovered: string[];
+  weakChapters?: string[];
+}
+
+export enum AppView {
+  EXAM = 'EXAM',
+  HISTORY = 'HISTORY',
+  DASHBOARD = 'DASHBOARD',
+  PERSONAS = 'PERSONAS',
+  RUBRIC = 'RUBRIC'
+}
+
+/** How hard an examiner presses on vague or partial answers. */
+export enum PersonaStrictness {
+  LENIENT = 'LENIENT',
+  BALANCED = 'BALANCED',
+  STRICT = 'STRICT'
+}
+
+export enum LanguageMix {
+  ENGLISH = 'ENGLISH',
+  HINGLISH = 'HINGLISH',
+  HINDI = 'HINDI'
+}
+
+export interface Persona {
+  id: string;
+  label: string;
+  description: string;
+  icon: string;
+  instruction: string;
+  voiceName: string;
+  strictness?: PersonaStrictness;
+  /** Defaults to Hinglish when unset. */
+  languageMix?: LanguageMix;
+}
+
+export interface QuestionFollowUp {
+  question: string;
+  answer: string;
+}
+
+export interface QuestionReview {
+  question: string;
+  candidateAnswer: string;
+  followUps: QuestionFollowUp[];
+  chapterId: string;
+  marks: number;
+  maxMarks: number;
+  idealAnswer: string;
+  comment: string;
+  askedAt?: number;
+  /** Persona ID of the panel examiner who asked the question. */
+  examinerId?: string;
+}
+
+/** A panel member as recorded on an attempt, so reports survive the persona being edited or deleted. */
+export interface PanelExaminer {
+  id: string;
+  label: string;
+  icon: string;
+}
+
+/** One continuous recording; a viva resumed after a drop has one per stretch between drops. */
+export interface SessionRecording {
+  blob: Blob;
+  mimeType: string;
+  /** Epoch ms at which the recording's t=0 falls, for aligning transcript timestamps. */
+  startedAt: number;
+}
+
+/** One answer scored during an adaptive viva, with the level the examiner was at when asking it. */
+export interface DifficultyPoint {
+  timestamp: number;
+  marks: number;
+  maxMarks: number;
+  difficulty: DifficultyLevel;
+}
+
+/** A span during which the candidate paused the viva; the timer and uploads were frozen. */
+export interface PauseInterval {
+  startedAt: number;
+  endedAt: number;
+}
+
+export type IntegrityEventKind = 'focus-lost' | 'camera-covered' | 'face-absent' | 'multiple-voices' | 'long-silence';
+
+/** One proctoring signal; `endedAt` is unset while the condition still held when the viva ended. */
+export interface IntegrityEvent {
+  kind: IntegrityEventKind;
+  startedAt: number;
+  endedAt?: number;
+  detail?: string;
+}
+
+/** Proctoring log of a viva, with the checks this device could run. */
+export interface IntegrityLog {
+  checks: IntegrityEventKind[];
+  events: IntegrityEvent[];
+}
+
+/** Everything ExamRoom hands back when the viva ends. */
+export interface ExamSessionResult {
+  transcript: TranscriptionEntry[];
+  persona: Persona;
+  panel?: PanelExaminer[];
+  /** In order, one per stretch of the viva between drops. */
+  recordings: SessionRecording[];
+  pauses: PauseInterval[];
+  difficultyTrajectory?: DifficultyPoint[];
+  observations?: ObservationRecord;
+  integrity?: IntegrityLog;
+}
+
+/** Progress carried into a fresh ExamRoom when a dropped viva is resumed from the error screen. */
+export interface ExamResumeState {
+  transcript: TranscriptionEntry[];
+  timeLeftSeconds: number;
+  personaId: string;
+  pauses: PauseInterval[];
+  difficultyTrajectory?: DifficultyPoint[];
+  currentDifficulty?: DifficultyLevel;
+  /** Why the session stopped, shown on the error screen. */
+  reason?: string;
+  /** Live API session resumption handles by persona ID, for examiners the server issued one to before the drop. */
+  resumeHandles?: Record<string, string>;
+  /** Recordings finished before the drop; the resumed room records a new one after them. */
+  recordings?: SessionRecording[];
+  observations?: ObservationRecord;
+  integrity?: IntegrityLog;
+}
+
+export interface ExamAttempt {
+  id: string;
+  classLevel: ClassLevel;
+  difficulty: DifficultyLevel;
+  durationSeconds: number;
+  mode?: ExamMode;
+  syllabusUnitIds?: string[];
+  personaId: string;
+  personaLabel: string;
+  /** Panel vivas only; `personaId` is the lead examiner. */
+  panel?: PanelExaminer[];
+  transcript: TranscriptionEntry[];
+  stats: ExamStats;
+  questions?: QuestionReview[];
+  /** Attempts archived before vivas could be resumed hold a single `recording`. */
+  recording?: SessionRecording;
+  recordings?: SessionRecording[];
+  pauses?: PauseInterval[];
+  /** Adaptive vivas only; `difficulty` above is the starting level. */
+  difficultyTrajectory?: DifficultyPoint[];
+  /** Practical vivas only. */
+  experimentId?: string;
+  checklist?: ChecklistItem[];
+  observations?: ObservationRecord;
+  integrity?: IntegrityLog;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface PracticalExperiment {
+  id: string;
+  title: string;
+}
+
+/** What a practical viva on one experiment should cover beyond the six standard aspects. */
+export interface PracticalGuide {
+  aim: string;
+  apparatus: string[];
+  concepts: string[];
+}
+
+export type ChecklistCategory = 'aspect' | 'apparatus' | 'concept';
+
+/** One point a practical viva should cover, and whether the candidate addressed it. */
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  category: ChecklistCategory;
+  addressed: boolean;
+  /** Candidate's words that addressed the item. */
+  evidence?: string;
+}
+
+/** One measured quantity in an observation table. */
+export interface ObservationColumn {
+  name: string;
+  unit: string;
+  /** Smallest reading the instrument resolves, in `unit`. */
+  leastCount?: number;
+}
+
+/** A practical record's observation table as the candidate wrote it; readings stay strings so trailing zeros count. */
+export interface ObservationTable {
+  columns: ObservationColumn[];
+  rows: string[][];
+  /** The candidate's mean per column; blank where none was given. */
+  means: string[];
+  /** Slope the candidate read off their graph of column `y` against column `x`. */
+  slope?: { x: number; y: number; value: string };
+  result?: { value: string; unit: string; standardValue?: string; percentError?: string };
+}
+
+export type ObservationIssueKind = 'reading' | 'least-count' | 'mean' | 'slope' | 'percent-error' | 'sig-figs';
+
+export interface ObservationIssue {
+  kind: ObservationIssueKind;
+  message: string;
+}
+
+/** The arithmetic of an observation table recomputed locally, with every mismatch found. */
+export interface ObservationCheck {
+  means: (number | null)[];
+  slope?: number;
+  percentError?: number;
+  issues: ObservationIssue[];
+}
+
+export interface ObservationRecord {
+  table: ObservationTable;
+  check: ObservationCheck;
+  submittedAt: number;
+}
+
+export interface SyllabusChapter {
+  id: string;
+  title: string;
+  topics: string[];
+  experiments: PracticalExperiment[];
+}
+
+export interface SyllabusUnit {
+  id: string;
+  name: string;
+  /** Distinctive phrases that identify the unit in free-text remarks; matched as whole words. */
+  keywords: string[];
+  chapters: SyllabusChapter[];
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { nextDifficulty } from './adaptiveDifficulty';
+import { DifficultyLevel, DifficultyPoint } from '../types';
+
+const point = (difficulty: DifficultyLevel, marks: number): DifficultyPoint => ({ timestamp: 0, marks, maxMarks: 5, difficulty });
+
+describe('nextDifficulty', () => {
+  it('waits for two answers at the current level', () => {
+    expect(nextDifficulty(DifficultyLevel.MEDIUM, [])).toBe(DifficultyLevel.MEDIUM);
+    expect(nextDifficulty(DifficultyLevel.MEDIUM, [point(DifficultyLevel.MEDIUM, 5)])).toBe(DifficultyLevel.MEDIUM);
+  });
+
+  it('steps up after two strong answers and down after two weak ones', () => {
+    const strong = [point(DifficultyLevel.MEDIUM, 4), point(DifficultyLevel.MEDIUM, 5)];
+    const weak = [point(DifficultyLevel.MEDIUM, 2), point(DifficultyLevel.MEDIUM, 1)];
+    expect(nextDifficulty(DifficultyLevel.MEDIUM, strong)).toBe(DifficultyLevel.HARD);
+    expect(nextDifficulty(DifficultyLevel.MEDIUM, weak)).toBe(DifficultyLevel.EASY);
+  });
+
+  it('stays put for middling answers', () => {
+    const middling = [point(DifficultyLevel.MEDIUM, 3), point(DifficultyLevel.MEDIUM, 3)];
+    expect(nextDifficulty(DifficultyLevel.MEDIUM, middling)).toBe(DifficultyLevel.MEDIUM);
+  });
+
+  it('never moves beyond the easiest or hardest level', () => {
+    expect(nextDifficulty(DifficultyLevel.HARD, [point(DifficultyLevel.HARD, 5), point(DifficultyLevel.HARD, 5)])).toBe(DifficultyLevel.HARD);
+    expect(nextDifficulty(DifficultyLevel.EASY, [point(DifficultyLevel.EASY, 0), point(DifficultyLevel.EASY, 0)])).toBe(DifficultyLevel.EASY);
+  });
+
+  it('only counts answers given since the last change of level', () => {
+    const trajectory = [point(DifficultyLevel.MEDIUM, 5), point(DifficultyLevel.MEDIUM, 5), point(DifficultyLevel.HARD, 5)];
+    expect(nextDifficulty(DifficultyLevel.HARD, trajectory)).toBe(DifficultyLevel.HARD);
+  });
+
+  it('judges the latest two answers only', () => {
+    const trajectory = [point(DifficultyLevel.MEDIUM, 0), point(DifficultyLevel.MEDIUM, 5), point(DifficultyLevel.MEDIUM, 4)];
+    expect(nextDifficulty(DifficultyLevel.MEDIUM, trajectory)).toBe(DifficultyLevel.HARD);
+  });
+});
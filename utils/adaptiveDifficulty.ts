@@ -0,0 +1,26 @@
+
+import { DifficultyLevel, DifficultyPoint } from '../types';
+
+const LEVELS = [DifficultyLevel.EASY, DifficultyLevel.MEDIUM, DifficultyLevel.HARD];
+
+// The level moves once the average of the last WINDOW answers at the current level crosses
+// a threshold, so a single lucky or unlucky answer never changes it.
+const WINDOW = 2;
+const STEP_UP_RATIO = 0.8;
+const STEP_DOWN_RATIO = 0.4;
+
+/** Level the examiner should move to after the latest scored answer, or the current one to stay. */
+export function nextDifficulty(current: DifficultyLevel, trajectory: DifficultyPoint[]): DifficultyLevel {
+  const recent: DifficultyPoint[] = [];
+  for (let i = trajectory.length - 1; i >= 0 && trajectory[i].difficulty === current; i--) {
+    recent.push(trajectory[i]);
+  }
+  if (recent.length < WINDOW) return current;
+
+  const window = recent.slice(0, WINDOW);
+  const ratio = window.reduce((sum, p) => sum + p.marks / p.maxMarks, 0) / WINDOW;
+  const index = LEVELS.indexOf(current);
+  if (ratio >= STEP_UP_RATIO) return LEVELS[Math.min(LEVELS.length - 1, index + 1)];
+  if (ratio <= STEP_DOWN_RATIO) return LEVELS[Math.max(0, index - 1)];
+  return current;
+}
@@ -0,0 +1,70 @@
+import { TranscriptionEntry } from '../types';
+
+const STILL_QUALITY = 0.92;
+// Phone photos and camera stills run to 12 MP or more; a 2048 px long edge keeps handwriting
+// legible to the examiner while holding the JPEG stored with the attempt to a few hundred kilobytes.
+const STILL_MAX_EDGE = 2048;
+const UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+
+export interface DiagramFeedback {
+  entry: TranscriptionEntry;
+  /** The examiner's reply to the diagram, if one came before the viva ended. */
+  comment?: TranscriptionEntry;
+}
+
+/** Encodes `source` as a JPEG data URL, scaled down so its long edge is at most STILL_MAX_EDGE. */
+function encodeStill(source: CanvasImageSource, sourceWidth: number, sourceHeight: number): string | null {
+  const scale = Math.min(1, STILL_MAX_EDGE / Math.max(sourceWidth, sourceHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', STILL_QUALITY);
+}
+
+/** Grabs the current video frame as a JPEG data URL, downscaled like uploads; null before the first frame. */
+export function captureVideoStill(video: HTMLVideoElement): string | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  return encodeStill(video, video.videoWidth, video.videoHeight);
+}
+
+/**
+ * Re-encodes an uploaded photo as a JPEG data URL no larger than STILL_MAX_EDGE on its long
+ * edge. Throws an Error with a message for the candidate when the file is not a usable image.
+ */
+export async function readImageFile(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error("That file is not an image. Choose a photo (JPEG or PNG).");
+  if (file.size > UPLOAD_MAX_BYTES) {
+    throw new Error(`That photo is larger than ${UPLOAD_MAX_BYTES / (1024 * 1024)} MB. Choose a smaller one.`);
+  }
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (err) {
+    console.error("Image decode failed:", err);
+    throw new Error("That image could not be opened. Try a JPEG or PNG photo.");
+  }
+  try {
+    const still = encodeStill(bitmap, bitmap.width, bitmap.height);
+    if (!still) throw new Error("That image could not be prepared for upload.");
+    return still;
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function splitDataUrl(dataUrl: string): { mimeType: string; data: string } {
+  const [header, data = ''] = dataUrl.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] ?? 'image/jpeg', data };
+}
+
+/** Pairs each diagram the candidate showed with the examiner's next reply, which comments on it. */
+export function diagramFeedback(transcript: TranscriptionEntry[]): DiagramFeedback[] {
+  return transcript.flatMap((entry, i) => {
+    if (!entry.image) return [];
+    const comment = transcript.slice(i + 1).find(t => t.role === 'examiner');
+    return [{ entry, comment }];
+  });
+}
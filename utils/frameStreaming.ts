@@ -0,0 +1,91 @@
+import { VisionProfile } from '../types';
+
+export interface FrameProfile {
+  label: string;
+  description: string;
+  intervalMs: number;
+  width: number;
+  height: number;
+  /** JPEG quality, 0–1. */
+  quality: number;
+}
+
+export const FRAME_PROFILES: Record<Exclude<VisionProfile, VisionProfile.OFF>, FrameProfile> = {
+  [VisionProfile.LOW_BANDWIDTH]: {
+    label: 'Low Bandwidth',
+    description: 'A small, compressed frame every 6 seconds for slow or metered connections.',
+    intervalMs: 6000,
+    width: 240,
+    height: 180,
+    quality: 0.3
+  },
+  [VisionProfile.STANDARD]: {
+    label: 'Standard',
+    description: 'A frame every 3 seconds; enough for the examiner to see you and what you hold up.',
+    intervalMs: 3000,
+    width: 320,
+    height: 240,
+    quality: 0.4
+  },
+  [VisionProfile.DETAIL]: {
+    label: 'Detail',
+    description: 'Sharper frames every 2 seconds so handwriting and apparatus are legible. Uses the most data.',
+    intervalMs: 2000,
+    width: 640,
+    height: 480,
+    quality: 0.7
+  }
+};
+
+// Frames are compared on a small greyscale thumbnail. One whose mean per-pixel difference (0–255)
+// from the last frame sent stays under CHANGE_THRESHOLD is skipped, but a frame always goes out
+// after MAX_SKIP_MS so the examiner's view never goes stale.
+const DIFF_WIDTH = 32;
+const DIFF_HEIGHT = 24;
+const CHANGE_THRESHOLD = 6;
+const MAX_SKIP_MS = 30000;
+
+export interface FrameSampler {
+  /** Base64 JPEG of the current frame when it is worth sending, or null to skip it. */
+  sample: (video: HTMLVideoElement) => string | null;
+}
+
+export function createFrameSampler(profile: FrameProfile): FrameSampler {
+  const canvas = document.createElement('canvas');
+  canvas.width = profile.width;
+  canvas.height = profile.height;
+  const diffCanvas = document.createElement('canvas');
+  diffCanvas.width = DIFF_WIDTH;
+  diffCanvas.height = DIFF_HEIGHT;
+  const diffCtx = diffCanvas.getContext('2d', { willReadFrequently: true });
+  let lastSent: Uint8ClampedArray | null = null;
+  let lastSentAt = 0;
+
+  const thumbnail = (video: HTMLVideoElement) => {
+    diffCtx!.drawImage(video, 0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+    const rgba = diffCtx!.getImageData(0, 0, DIFF_WIDTH, DIFF_HEIGHT).data;
+    const grey = new Uint8ClampedArray(DIFF_WIDTH * DIFF_HEIGHT);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    }
+    return grey;
+  };
+
+  return {
+    sample: (video) => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !diffCtx || !video.videoWidth) return null;
+      const now = Date.now();
+      const grey = thumbnail(video);
+      if (lastSent && now - lastSentAt < MAX_SKIP_MS) {
+        let difference = 0;
+        for (let i = 0; i < grey.length; i++) difference += Math.abs(grey[i] - lastSent[i]);
+        if (difference / grey.length < CHANGE_THRESHOLD) return null;
+      }
+      lastSent = grey;
+      lastSentAt = now;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return canvas.toDataURL('image/jpeg', profile.quality).split(',')[1];
+    }
+  };
+}
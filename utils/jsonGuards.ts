@@ -0,0 +1,9 @@
+/** Narrowing checks for data parsed from imported files or browser storage. */
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+export const isArrayOf = <T>(value: unknown, guard: (item: unknown) => item is T): value is T[] => Array.isArray(value) && value.every(guard);
+export const isOneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T => values.includes(value as T);
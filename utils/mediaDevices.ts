@@ -0,0 +1,96 @@
+
+import { DeviceSelection } from '../types';
+
+export type MediaKind = 'microphone' | 'camera';
+
+const CAMERA_WIDTH = 640;
+const CAMERA_HEIGHT = 480;
+
+/** Turns a getUserMedia failure into an instruction naming the device and what to do about it. */
+export function describeMediaError(kind: MediaKind, error: unknown): string {
+  const name = (error as { name?: string } | null)?.name;
+  const device = kind === 'microphone' ? 'Microphone' : 'Camera';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return `${device} permission was denied. Allow ${kind} access for this site from the icon in the address bar, then try again.`;
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return `No ${kind} was found. Connect one and try again.`;
+    case 'NotReadableError':
+    case 'TrackStartError':
+      return `${device} is in use by another application or could not be started. Close other apps using it and try again.`;
+    case 'OverconstrainedError':
+      return `The selected ${kind} is no longer available. Choose another device.`;
+    case 'SecurityError':
+      return `${device} access is blocked on this page. Open the app over HTTPS or from localhost.`;
+    case 'AbortError':
+      return `${device} start-up was interrupted. Try again.`;
+    default:
+      return `${device} could not be opened${error instanceof Error && error.message ? `: ${error.message}` : '.'}`;
+  }
+}
+
+/** Opens one device, throwing an Error whose message comes from `describeMediaError`. */
+export async function openMedia(kind: MediaKind, deviceId?: string): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error(window.isSecureContext
+      ? 'This browser does not support microphone or camera access.'
+      : 'Microphone and camera access need a secure (HTTPS) connection.');
+  }
+  const exact = deviceId ? { deviceId: { exact: deviceId } } : {};
+  const constraints: MediaStreamConstraints = kind === 'microphone'
+    ? { audio: deviceId ? exact : true }
+    : { video: { width: CAMERA_WIDTH, height: CAMERA_HEIGHT, ...exact } };
+  try {
+    return await navigator.mediaDevices.getUserMedia(constraints);
+  } catch (error) {
+    throw new Error(describeMediaError(kind, error));
+  }
+}
+
+/**
+ * Opens the microphone and camera for a voice viva. They are requested one after the other so
+ * a failure names the device at fault rather than reporting a combined error.
+ */
+export async function openExamMedia(devices?: DeviceSelection, withCamera = true): Promise<MediaStream> {
+  const audio = await openMedia('microphone', devices?.audioInputId);
+  if (!withCamera) return audio;
+  try {
+    const video = await openMedia('camera', devices?.videoInputId);
+    return new MediaStream([...audio.getTracks(), ...video.getTracks()]);
+  } catch (error) {
+    audio.getTracks().forEach(track => track.stop());
+    throw error;
+  }
+}
+
+export interface InputDevices {
+  audio: MediaDeviceInfo[];
+  video: MediaDeviceInfo[];
+}
+
+/** Lists input devices; labels are only filled in once a permission has been granted. */
+export async function listInputDevices(): Promise<InputDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    audio: devices.filter(d => d.kind === 'audioinput'),
+    video: devices.filter(d => d.kind === 'videoinput')
+  };
+}
+
+/** Plays a short 440 Hz tone through the default output so the candidate can confirm their speakers. */
+export async function playTestTone(durationSeconds = 0.8): Promise<void> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = 440;
+  gain.gain.setValueAtTime(0.0001, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.3, ctx.currentTime + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + durationSeconds);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start();
+  oscillator.stop(ctx.currentTime + durationSeconds);
+  await new Promise<void>(resolve => { oscillator.onended = () => resolve(); });
+  await ctx.close();
+}
@@ -0,0 +1,187 @@
+
+/** Sample rate the Live API expects for candidate audio. */
+export const CAPTURE_SAMPLE_RATE = 16000;
+/** 100 ms of 16 kHz audio per chunk sent to the examiner. */
+export const CAPTURE_CHUNK_SAMPLES = 1600;
+
+const PROCESSOR_NAME = 'pcm16-capture';
+
+/** Maps an RMS level onto a 0–1 meter scale spanning -60 dBFS to 0 dBFS. */
+export function meterLevel(rms: number) {
+  const db = 20 * Math.log10(Math.max(rms, 1e-6));
+  return Math.min(1, Math.max(0, (db + 60) / 60));
+}
+
+// Runs on the audio rendering thread: low-pass filters the device-rate input below the 8 kHz
+// Nyquist limit so speech sibilants do not alias, resamples it to 16 kHz by linear
+// interpolation, clamps to Int16, slices fixed-size chunks and base64-encodes them (the
+// worklet scope has no btoa) so the main thread only forwards strings. Each chunk also
+// carries its RMS for metering and voice activity detection, and the peak of the raw input
+// it covers, before filtering can soften a clipped sample, for the clipping warning.
+const PROCESSOR_SOURCE = `
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+// Odd tap count keeps the filter symmetric; the cutoff sits just under the target Nyquist
+// frequency so the Blackman window's transition band falls mostly below it.
+const FILTER_TAPS = 63;
+const CUTOFF_RATIO = 0.9;
+
+/** Blackman-windowed sinc low-pass with unity gain at DC; cutoff in cycles per input sample. */
+function lowPassTaps(cutoff, count) {
+  const taps = new Float32Array(count);
+  const mid = (count - 1) / 2;
+  let sum = 0;
+  for (let n = 0; n < count; n++) {
+    const x = n - mid;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * n / (count - 1)) + 0.08 * Math.cos(4 * Math.PI * n / (count - 1));
+    taps[n] = sinc * window;
+    sum += taps[n];
+  }
+  for (let n = 0; n < count; n++) taps[n] /= sum;
+  return taps;
+}
+
+function toBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += ALPHABET[n >> 18] + ALPHABET[(n >> 12) & 63] + ALPHABET[(n >> 6) & 63] + ALPHABET[n & 63];
+  }
+  if (i < bytes.length) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8);
+    out += ALPHABET[n >> 18] + ALPHABET[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? ALPHABET[(n >> 6) & 63] + '=' : '==';
+  }
+  return out;
+}
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.step = sampleRate / targetRate;
+    // Only downsampling needs the filter; a context already at 16 kHz passes straight through.
+    this.taps = this.step > 1 ? lowPassTaps(CUTOFF_RATIO * targetRate / 2 / sampleRate, FILTER_TAPS) : new Float32Array([1]);
+    this.history = new Float32Array(this.taps.length);
+    this.historyIndex = 0;
+    this.filtered = new Float32Array(128);
+    this.position = 0;
+    this.previous = 0;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+    this.sumSquares = 0;
+    this.peak = 0;
+  }
+
+  /** Runs the FIR over one render block, carrying the last taps' worth of samples to the next. */
+  filter(input) {
+    if (this.filtered.length < input.length) this.filtered = new Float32Array(input.length);
+    const taps = this.taps;
+    const history = this.history;
+    const size = history.length;
+    for (let i = 0; i < input.length; i++) {
+      history[this.historyIndex] = input[i];
+      let acc = 0;
+      for (let k = 0, j = this.historyIndex; k < size; k++, j = j === 0 ? size - 1 : j - 1) {
+        acc += taps[k] * history[j];
+      }
+      this.filtered[i] = acc;
+      this.historyIndex = (this.historyIndex + 1) % size;
+    }
+    return this.filtered.subarray(0, input.length);
+  }
+
+  process(inputs) {
+    const raw = inputs[0] && inputs[0][0];
+    if (!raw) return true;
+    for (let i = 0; i < raw.length; i++) {
+      const level = Math.abs(raw[i]);
+      if (level > this.peak) this.peak = level;
+    }
+    const input = this.filter(raw);
+    // position is measured from the sample before this block (index -1 = previous).
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index === 0 ? this.previous : input[index - 1];
+      const b = input[index];
+      const sample = Math.max(-1, Math.min(1, a + (b - a) * frac));
+      this.chunk[this.filled++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+      this.sumSquares += sample * sample;
+      if (this.filled === this.chunk.length) {
+        this.port.postMessage({
+          pcm: toBase64(new Uint8Array(this.chunk.buffer)),
+          rms: Math.sqrt(this.sumSquares / this.filled),
+          peak: this.peak
+        });
+        this.filled = 0;
+        this.sumSquares = 0;
+        this.peak = 0;
+      }
+      this.position += this.step;
+    }
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureProcessor(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export interface MicChunk {
+  /** Base64 PCM16 mono at 16 kHz. */
+  pcm: string;
+  /** Level of the resampled chunk on a 0–1 scale. */
+  rms: number;
+  /** Loudest raw microphone sample since the previous chunk, 0–1; at or near 1 the mic is clipping. */
+  peak: number;
+}
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+/**
+ * Streams `stream`'s microphone through an AudioWorklet, calling `onChunk` with fixed chunks of
+ * CAPTURE_CHUNK_SAMPLES at 16 kHz, whatever the context's own rate.
+ */
+export async function createMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: MicChunk) => void
+): Promise<MicCapture> {
+  await ensureProcessor(ctx);
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSamples: CAPTURE_CHUNK_SAMPLES }
+  });
+  node.port.onmessage = (event: MessageEvent<MicChunk>) => onChunk(event.data);
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    }
+  };
+}
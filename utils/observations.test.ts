@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { checkObservations, filledRows, parseReading } from './observations';
+import { ObservationIssueKind, ObservationTable } from '../types';
+
+const pendulum = (overrides: Partial<ObservationTable> = {}): ObservationTable => ({
+  columns: [
+    { name: 'Length L', unit: 'cm', leastCount: 0.1 },
+    { name: 'Time t', unit: 's', leastCount: 0.1 }
+  ],
+  rows: [['60.0', '31.2'], ['80.0', '35.9'], ['100.0', '40.2']],
+  means: ['', ''],
+  ...overrides
+});
+
+const kinds = (table: ObservationTable): ObservationIssueKind[] => checkObservations(table).issues.map(issue => issue.kind);
+
+describe('parseReading', () => {
+  it('accepts decimals, signs and exponents', () => {
+    expect(parseReading(' 12.50 ')).toBe(12.5);
+    expect(parseReading('-.5')).toBe(-0.5);
+    expect(parseReading('3e-2')).toBe(0.03);
+  });
+
+  it('rejects anything that is not a plain number', () => {
+    expect(parseReading('12 cm')).toBeNull();
+    expect(parseReading('')).toBeNull();
+  });
+});
+
+describe('filledRows', () => {
+  it('drops rows with no readings', () => {
+    expect(filledRows({ ...pendulum(), rows: [['1.0', ''], [' ', ''], ['', '2.0']] })).toHaveLength(2);
+  });
+});
+
+describe('checkObservations', () => {
+  it('finds nothing wrong with a clean table', () => {
+    expect(checkObservations(pendulum({ means: ['80.0', '35.8'] })).issues).toEqual([]);
+  });
+
+  it('recomputes column means', () => {
+    expect(checkObservations(pendulum()).means).toEqual([80, expect.closeTo(35.767, 3)]);
+  });
+
+  it('flags readings that are not numbers', () => {
+    expect(kinds(pendulum({ rows: [['60.0', 'abc']] }))).toEqual(['reading']);
+  });
+
+  it('flags readings recorded to the wrong precision for the least count', () => {
+    expect(kinds(pendulum({ rows: [['60', '31.2'], ['80.05', '35.9']] }))).toEqual(['least-count', 'least-count']);
+  });
+
+  it('flags readings that are not whole multiples of the least count', () => {
+    const table = pendulum({ columns: [{ name: 'Length', unit: 'cm', leastCount: 0.5 }], rows: [['60.2'], ['60.5']], means: [''] });
+    expect(kinds(table)).toEqual(['least-count']);
+  });
+
+  it('flags a wrong mean and a mean given to more decimal places than the readings', () => {
+    expect(kinds(pendulum({ means: ['85.0', ''] }))).toEqual(['mean']);
+    expect(kinds(pendulum({ means: ['', '35.767'] }))).toEqual(['sig-figs']);
+  });
+
+  it('checks the graph slope against a least-squares fit', () => {
+    const table = pendulum({ rows: [['1.0', '2.0'], ['2.0', '4.1'], ['3.0', '5.9']] });
+    expect(checkObservations({ ...table, slope: { x: 0, y: 1, value: '1.95' } }).issues).toEqual([]);
+    expect(checkObservations({ ...table, slope: { x: 0, y: 1, value: '2.5' } }).slope).toBeCloseTo(1.95);
+    expect(kinds({ ...table, slope: { x: 0, y: 1, value: '2.5' } })).toEqual(['slope']);
+  });
+
+  it('recomputes the percentage error against the standard value', () => {
+    const result = { value: '9.6', unit: 'm/s²', standardValue: '9.8', percentError: '2.04' };
+    expect(checkObservations(pendulum({ result })).percentError).toBeCloseTo(2.04, 2);
+    expect(kinds(pendulum({ result }))).toEqual([]);
+    expect(kinds(pendulum({ result: { ...result, percentError: '5%' } }))).toEqual(['percent-error']);
+  });
+
+  it('flags a result more precise than the least precise reading', () => {
+    expect(kinds(pendulum({ result: { value: '9.7834', unit: 'm/s²' } }))).toEqual(['sig-figs']);
+  });
+
+  it('ignores unitless index columns when judging the precision of the result', () => {
+    const table = pendulum({
+      columns: [{ name: 'S. No.', unit: '' }, { name: 'Length L', unit: 'cm', leastCount: 0.1 }, { name: 'Time t', unit: 's', leastCount: 0.1 }],
+      rows: [['1', '60.0', '31.2'], ['2', '80.0', '35.9']],
+      means: ['', '', ''],
+      result: { value: '9.78', unit: 'm/s²' }
+    });
+    expect(kinds(table)).toEqual([]);
+  });
+});
@@ -0,0 +1,188 @@
+import { ObservationCheck, ObservationColumn, ObservationIssue, ObservationIssueKind, ObservationTable } from '../types';
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+// A slope read off a hand-drawn graph is accepted within this fraction of the least-squares fit.
+const SLOPE_TOLERANCE = 0.05;
+// A stated percentage error is accepted within this many percentage points, or 5% of itself if larger.
+const PERCENT_ERROR_TOLERANCE = 0.1;
+
+export const OBSERVATION_ISSUE_LABELS: Record<ObservationIssueKind, string> = {
+  'reading': 'Reading',
+  'least-count': 'Least count',
+  'mean': 'Mean',
+  'slope': 'Slope',
+  'percent-error': '% error',
+  'sig-figs': 'Significant figures'
+};
+
+export function parseReading(text: string): number | null {
+  const trimmed = text.trim();
+  return NUMBER_PATTERN.test(trimmed) ? Number(trimmed) : null;
+}
+
+function decimalPlaces(text: string): number {
+  const mantissa = text.trim().split(/e/i)[0];
+  const point = mantissa.indexOf('.');
+  return point === -1 ? 0 : mantissa.length - point - 1;
+}
+
+/** Trailing zeros count only after a decimal point, as in a written record. */
+function significantFigures(text: string): number {
+  const mantissa = text.trim().replace(/^[-+]/, '').split(/e/i)[0];
+  const digits = mantissa.replace('.', '').replace(/^0+/, '');
+  return mantissa.includes('.') ? digits.length : digits.replace(/0+$/, '').length;
+}
+
+function isMultipleOf(value: number, step: number): boolean {
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+/** Least-squares slope of y on x; null with fewer than two distinct x values. */
+function fitSlope(points: [number, number][]): number | null {
+  if (points.length < 2) return null;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+  const sxx = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0);
+  return sxx === 0 ? null : sxy / sxx;
+}
+
+export const roundForDisplay = (value: number) => Number(value.toPrecision(4));
+
+export const columnLabel = (column: ObservationColumn, index: number) => column.name.trim() || `Column ${index + 1}`;
+
+export function emptyObservationTable(): ObservationTable {
+  return {
+    columns: [{ name: '', unit: '' }, { name: '', unit: '' }],
+    rows: [['', ''], ['', ''], ['', '']],
+    means: ['', '']
+  };
+}
+
+/** Rows with at least one reading filled in. */
+export function filledRows(table: ObservationTable): string[][] {
+  return table.rows.filter(row => row.some(cell => cell.trim() !== ''));
+}
+
+/** A column read off an instrument, as opposed to a serial number or other unitless index. */
+const isMeasuredColumn = (column: ObservationColumn) => column.unit.trim() !== '' || !!column.leastCount;
+
+/**
+ * Recomputes the table's means, graph slope and percentage error, and checks every reading
+ * against its column's least count and the result against the precision of the readings.
+ */
+export function checkObservations(table: ObservationTable): ObservationCheck {
+  const issues: ObservationIssue[] = [];
+  const values: number[][] = table.columns.map(() => []);
+  const figures: number[] = [];
+
+  table.columns.forEach((column, c) => {
+    const label = columnLabel(column, c);
+    table.rows.forEach((row, r) => {
+      const text = row[c]?.trim() ?? '';
+      if (!text) return;
+      const value = parseReading(text);
+      if (value === null) {
+        issues.push({ kind: 'reading', message: `${label}, reading ${r + 1}: "${text}" is not a number.` });
+        return;
+      }
+      values[c].push(value);
+      if (value !== 0 && isMeasuredColumn(column)) figures.push(significantFigures(text));
+      if (!column.leastCount) return;
+      const places = decimalPlaces(String(column.leastCount));
+      if (decimalPlaces(text) !== places) {
+        issues.push({ kind: 'least-count', message: `${label}, reading ${r + 1}: ${text} ${column.unit} should be recorded to ${places} decimal place${places === 1 ? '' : 's'} for a least count of ${column.leastCount} ${column.unit}.` });
+      } else if (!isMultipleOf(value, column.leastCount)) {
+        issues.push({ kind: 'least-count', message: `${label}, reading ${r + 1}: ${text} ${column.unit} is not a whole number of least counts (${column.leastCount} ${column.unit}).` });
+      }
+    });
+  });
+
+  const means = values.map(v => v.length > 0 ? v.reduce((sum, x) => sum + x, 0) / v.length : null);
+  table.means.forEach((text, c) => {
+    const claimed = text?.trim();
+    const column = table.columns[c];
+    if (!claimed || !column) return;
+    const label = columnLabel(column, c);
+    const value = parseReading(claimed);
+    if (value === null) {
+      issues.push({ kind: 'reading', message: `Mean of ${label}: "${claimed}" is not a number.` });
+      return;
+    }
+    const mean = means[c];
+    if (mean === null) return;
+    const tolerance = Math.max(0.5 * 10 ** -decimalPlaces(claimed), (column.leastCount ?? 0) / 2);
+    if (Math.abs(value - mean) > tolerance) {
+      issues.push({ kind: 'mean', message: `Mean of ${label} is given as ${claimed} ${column.unit} but the readings average ${roundForDisplay(mean)} ${column.unit}.` });
+    }
+    const readingPlaces = Math.max(...table.rows.map(row => row[c]?.trim() ?? '').filter(t => parseReading(t) !== null).map(decimalPlaces));
+    if (decimalPlaces(claimed) > readingPlaces) {
+      issues.push({ kind: 'sig-figs', message: `Mean of ${label} (${claimed}) is given to more decimal places than the readings (${readingPlaces}).` });
+    }
+  });
+
+  let slope: number | undefined;
+  if (table.slope && table.columns[table.slope.x] && table.columns[table.slope.y]) {
+    const { x, y, value } = table.slope;
+    const points = table.rows
+      .map(row => [parseReading(row[x] ?? ''), parseReading(row[y] ?? '')])
+      .filter((p): p is [number, number] => p[0] !== null && p[1] !== null);
+    slope = fitSlope(points) ?? undefined;
+    const claimed = parseReading(value);
+    const graph = `${columnLabel(table.columns[y], y)} against ${columnLabel(table.columns[x], x)}`;
+    if (value.trim() && claimed === null) {
+      issues.push({ kind: 'reading', message: `Slope of ${graph}: "${value.trim()}" is not a number.` });
+    } else if (claimed !== null && slope !== undefined && Math.abs(claimed - slope) > Math.abs(slope) * SLOPE_TOLERANCE) {
+      issues.push({ kind: 'slope', message: `Slope of ${graph} is given as ${value.trim()} but the readings fit a slope of ${roundForDisplay(slope)}.` });
+    }
+  }
+
+  let percentError: number | undefined;
+  const result = table.result;
+  if (result && result.value.trim()) {
+    const value = parseReading(result.value);
+    const standard = parseReading(result.standardValue ?? '');
+    if (value === null) {
+      issues.push({ kind: 'reading', message: `Result: "${result.value.trim()}" is not a number.` });
+    } else {
+      if (standard !== null && standard !== 0) {
+        percentError = Math.abs(value - standard) / Math.abs(standard) * 100;
+        const claimed = parseReading((result.percentError ?? '').replace('%', ''));
+        if (claimed !== null && Math.abs(claimed - percentError) > Math.max(PERCENT_ERROR_TOLERANCE, percentError * 0.05)) {
+          issues.push({ kind: 'percent-error', message: `Percentage error is given as ${claimed}% but ${result.value.trim()} against the standard ${result.standardValue?.trim()} is ${roundForDisplay(percentError)}%.` });
+        }
+      }
+      const leastPrecise = figures.length > 0 ? Math.min(...figures) : null;
+      const resultFigures = significantFigures(result.value);
+      if (leastPrecise !== null && resultFigures > leastPrecise) {
+        issues.push({ kind: 'sig-figs', message: `Result ${result.value.trim()} ${result.unit} has ${resultFigures} significant figures but the least precise reading has only ${leastPrecise}.` });
+      }
+    }
+  }
+
+  return { means, slope, percentError, issues };
+}
+
+/** Examiner note carrying the candidate's observation table and the mistakes found in it. */
+export function formatObservationsForPrompt(table: ObservationTable, check: ObservationCheck): string {
+  const header = table.columns
+    .map((column, i) => `${columnLabel(column, i)} (${column.unit || 'no unit'}${column.leastCount ? `, least count ${column.leastCount}` : ''})`)
+    .join(' | ');
+  const rows = filledRows(table).map((row, i) => `${i + 1}. ${row.map(cell => cell.trim() || '—').join(' | ')}`);
+  const claims = [
+    ...table.means.flatMap((mean, i) => mean?.trim() && table.columns[i] ? [`Stated mean of ${columnLabel(table.columns[i], i)}: ${mean.trim()}`] : []),
+    table.slope?.value.trim() && table.columns[table.slope.x] && table.columns[table.slope.y] ? `Stated slope of ${columnLabel(table.columns[table.slope.y], table.slope.y)} against ${columnLabel(table.columns[table.slope.x], table.slope.x)}: ${table.slope.value.trim()}` : '',
+    table.result?.value.trim() ? `Stated result: ${table.result.value.trim()} ${table.result.unit}${table.result.percentError?.trim() ? `, percentage error ${table.result.percentError.trim()}` : ''}` : ''
+  ].filter(Boolean);
+  const issues = check.issues.length > 0
+    ? `Mistakes found when the arithmetic was rechecked:\n${check.issues.map(issue => `- ${issue.message}`).join('\n')}`
+    : 'No arithmetic mistakes were found.';
+  return `[The candidate has submitted their observation table.
+${header}
+${rows.join('\n')}
+${claims.join('\n')}
+${issues}
+Over your next questions, ask them how they took these readings and question them on each mistake without giving away the correct value.]`;
+}
@@ -0,0 +1,265 @@
+import { IntegrityEvent, IntegrityEventKind, IntegrityLog } from '../types';
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventKind, string> = {
+  'focus-lost': 'Left the exam window',
+  'camera-covered': 'Camera covered',
+  'face-absent': 'Face not visible',
+  'multiple-voices': 'Another voice',
+  'long-silence': 'Long silence'
+};
+
+const TICK_MS = 250;
+const FACE_CHECK_MS = 2000;
+
+// A condition has to hold this long before it is logged, so a hand passing the lens,
+// a cough or a pause for thought does not count.
+const MIN_DURATION_MS: Record<IntegrityEventKind, number> = {
+  'focus-lost': 0,
+  'camera-covered': 3000,
+  'face-absent': 10000,
+  'multiple-voices': 2000,
+  'long-silence': 45000
+};
+
+// A 32×24 greyscale frame this dark or this uniform (0–255) means the lens is blocked.
+const FRAME_WIDTH = 32;
+const FRAME_HEIGHT = 24;
+const COVERED_MAX_MEAN = 20;
+const COVERED_MAX_SPREAD = 5;
+
+// Voices are told apart by pitch: the candidate's is learnt from their first BASELINE_PITCHES
+// voiced ticks, and speech whose median pitch over VOICE_WINDOW_MS strays from it by more than
+// PITCH_DEVIATION is taken to be someone else.
+const SPEECH_RMS = 0.015;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const MIN_CORRELATION = 0.5;
+const BASELINE_PITCHES = 40;
+const VOICE_WINDOW_MS = 2000;
+const MIN_WINDOW_PITCHES = 6;
+const PITCH_DEVIATION = 0.45;
+
+/** The part of the Shape Detection API's FaceDetector used here; lib.dom does not declare it. */
+interface FaceDetectorLike {
+  detect: (image: HTMLVideoElement) => Promise<unknown[]>;
+}
+
+declare global {
+  interface Window {
+    /** Chromium only, and only on some platforms. */
+    FaceDetector?: new () => FaceDetectorLike;
+  }
+}
+
+export interface ProctorOptions {
+  /** Live microphone; without it voice and silence checks fall back to `noteActivity`. */
+  audio?: { context: AudioContext; stream: MediaStream };
+  /** Camera preview; without it no camera checks run. */
+  getVideo?: () => HTMLVideoElement | null;
+  /** Checks stand down while this is true, e.g. while paused or a dialog is open. */
+  isSuspended: () => boolean;
+  /** True while the examiner is talking, when the candidate is expected to be quiet. */
+  isExaminerTurn: () => boolean;
+  /** Events carried over from before a reconnect. */
+  events?: IntegrityEvent[];
+  onChange: (log: IntegrityLog) => void;
+}
+
+export interface Proctor {
+  /** Marks the candidate as active, e.g. on a keystroke or a completed turn. */
+  noteActivity: () => void;
+  /** Stops watching and ends every signal still in progress, emitting the final log. */
+  stop: () => void;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Fundamental frequency by autocorrelation; null for unvoiced or ambiguous audio. */
+function estimatePitch(samples: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(samples.length - 1, Math.floor(sampleRate / MIN_PITCH_HZ));
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+  if (energy === 0) return null;
+  let bestLag = 0;
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i + lag < samples.length; i++) correlation += samples[i] * samples[i + lag];
+    if (correlation > best) {
+      best = correlation;
+      bestLag = lag;
+    }
+  }
+  return bestLag > 0 && best / energy >= MIN_CORRELATION ? sampleRate / bestLag : null;
+}
+
+/**
+ * Watches for integrity signals during a viva, entirely on this device: the exam window losing
+ * focus, the camera being covered or the face leaving the frame, a second voice, and long
+ * silences. Each signal is logged with the time it started and, once it clears, ended.
+ */
+export function createProctor(options: ProctorOptions): Proctor {
+  const events: IntegrityEvent[] = [...(options.events ?? [])];
+  const since: Partial<Record<IntegrityEventKind, number>> = {};
+  const open: Partial<Record<IntegrityEventKind, IntegrityEvent>> = {};
+
+  const faceDetector = options.getVideo && window.FaceDetector ? new window.FaceDetector() : null;
+  const checks: IntegrityEventKind[] = [
+    'focus-lost',
+    ...(options.getVideo ? ['camera-covered' as const] : []),
+    ...(faceDetector ? ['face-absent' as const] : []),
+    ...(options.audio ? ['multiple-voices' as const] : []),
+    'long-silence'
+  ];
+  const emit = () => options.onChange({ checks, events: [...events] });
+
+  const update = (kind: IntegrityEventKind, holds: boolean, now: number, detail?: string, startedAt = now) => {
+    if (holds) {
+      const start = since[kind] ??= startedAt;
+      if (!open[kind] && now - start >= MIN_DURATION_MS[kind]) {
+        open[kind] = { kind, startedAt: start, detail };
+        events.push(open[kind]!);
+        emit();
+      }
+      return;
+    }
+    delete since[kind];
+    const event = open[kind];
+    if (event) {
+      event.endedAt = now;
+      delete open[kind];
+      emit();
+    }
+  };
+
+  let source: MediaStreamAudioSourceNode | null = null;
+  let analyser: AnalyserNode | null = null;
+  let samples: Float32Array<ArrayBuffer> | null = null;
+  if (options.audio) {
+    source = options.audio.context.createMediaStreamSource(options.audio.stream);
+    analyser = options.audio.context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+    samples = new Float32Array(analyser.fftSize);
+  }
+
+  const frameCanvas = document.createElement('canvas');
+  frameCanvas.width = FRAME_WIDTH;
+  frameCanvas.height = FRAME_HEIGHT;
+  const frameCtx = frameCanvas.getContext('2d', { willReadFrequently: true });
+
+  let lastActivityAt = Date.now();
+  const baseline: number[] = [];
+  let recentPitches: { at: number; hz: number }[] = [];
+  let facesSeen: number | null = null;
+  let isDetecting = false;
+  let lastFaceCheckAt = 0;
+
+  const isCovered = (video: HTMLVideoElement) => {
+    if (!frameCtx || !video.videoWidth) return false;
+    frameCtx.drawImage(video, 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+    const rgba = frameCtx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT).data;
+    const count = FRAME_WIDTH * FRAME_HEIGHT;
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < count; i++) {
+      const grey = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+      sum += grey;
+      sumSquares += grey * grey;
+    }
+    const mean = sum / count;
+    const spread = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+    return mean < COVERED_MAX_MEAN || spread < COVERED_MAX_SPREAD;
+  };
+
+  const checkFace = (video: HTMLVideoElement, now: number) => {
+    if (!faceDetector || isDetecting || now - lastFaceCheckAt < FACE_CHECK_MS || !video.videoWidth) return;
+    isDetecting = true;
+    lastFaceCheckAt = now;
+    faceDetector.detect(video)
+      .then(faces => { facesSeen = faces.length; })
+      .catch(() => { facesSeen = null; })
+      .finally(() => { isDetecting = false; });
+  };
+
+  const listenToVoice = (now: number, examinerTurn: boolean) => {
+    if (!analyser || !samples || !options.audio) return;
+    analyser.getFloatTimeDomainData(samples);
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+    if (Math.sqrt(sumSquares / samples.length) < SPEECH_RMS) return;
+    lastActivityAt = now;
+    // Examiner audio can leak back into the microphone, so only the candidate's turn is analysed.
+    if (examinerTurn) return;
+    const hz = estimatePitch(samples, options.audio.context.sampleRate);
+    if (hz === null) return;
+    if (baseline.length < BASELINE_PITCHES) {
+      baseline.push(hz);
+      return;
+    }
+    recentPitches.push({ at: now, hz });
+  };
+
+  const tick = () => {
+    const now = Date.now();
+    const suspended = options.isSuspended();
+    const examinerTurn = options.isExaminerTurn();
+    if (suspended || examinerTurn) lastActivityAt = now;
+
+    const isHidden = document.hidden || !document.hasFocus();
+    update('focus-lost', !suspended && isHidden, now, document.hidden ? 'Switched tab or minimised' : 'Another window was in focus');
+
+    const video = options.getVideo?.() ?? null;
+    const covered = !suspended && !!video && isCovered(video);
+    update('camera-covered', covered, now);
+    if (video && !suspended && !covered) checkFace(video, now);
+    update('face-absent', !suspended && !covered && facesSeen === 0, now);
+
+    if (!suspended) listenToVoice(now, examinerTurn);
+    recentPitches = recentPitches.filter(p => now - p.at <= VOICE_WINDOW_MS);
+    const candidateHz = baseline.length >= BASELINE_PITCHES ? median(baseline) : null;
+    const otherHz = recentPitches.length >= MIN_WINDOW_PITCHES ? median(recentPitches.map(p => p.hz)) : null;
+    const otherVoice = !suspended && candidateHz !== null && otherHz !== null && Math.abs(otherHz - candidateHz) / candidateHz > PITCH_DEVIATION;
+    update('multiple-voices', otherVoice, now, otherVoice ? `Voice at about ${Math.round(otherHz!)} Hz; the candidate's is about ${Math.round(candidateHz!)} Hz` : undefined);
+
+    update('long-silence', now - lastActivityAt >= MIN_DURATION_MS['long-silence'], now, undefined, lastActivityAt);
+  };
+
+  const timer = window.setInterval(tick, TICK_MS);
+  window.addEventListener('blur', tick);
+  window.addEventListener('focus', tick);
+  document.addEventListener('visibilitychange', tick);
+  emit();
+
+  return {
+    noteActivity: () => { lastActivityAt = Date.now(); },
+    stop: () => {
+      clearInterval(timer);
+      window.removeEventListener('blur', tick);
+      window.removeEventListener('focus', tick);
+      document.removeEventListener('visibilitychange', tick);
+      source?.disconnect();
+      // A viva resumed after a drop starts a fresh proctor, which could never close these.
+      const stillOpen = Object.values(open);
+      if (stillOpen.length === 0) return;
+      const now = Date.now();
+      stillOpen.forEach(event => { event.endedAt = now; });
+      emit();
+    }
+  };
+}
+
+/** Total milliseconds covered by events of one kind, counting open ones up to `until`. */
+export function integrityDuration(events: IntegrityEvent[], kind: IntegrityEventKind, until: number): number {
+  return events.filter(e => e.kind === kind).reduce((sum, e) => sum + (e.endedAt ?? until) - e.startedAt, 0);
+}
+
+/** "45s" or "2m 05s". */
+export function formatSpan(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s` : `${seconds}s`;
+}
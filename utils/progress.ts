@@ -0,0 +1,97 @@
+
+import { ClassLevel, DifficultyLevel, ExamAttempt } from '../types';
+import { SYLLABUS_UNITS, matchSyllabusUnits } from '../data/syllabus';
+import { GradedStats, isGraded } from './scoring';
+
+export interface ScorePoint {
+  attemptId: string;
+  timestamp: number;
+  score: number;
+}
+
+export interface ScoreSeries {
+  classLevel: ClassLevel;
+  difficulty: DifficultyLevel;
+  points: ScorePoint[];
+}
+
+export interface UnitPerformance {
+  unit: string;
+  covered: number;
+  flagged: number;
+  averageScore: number | null;
+  isWeak: boolean;
+}
+
+export interface RecurringRemark {
+  text: string;
+  count: number;
+}
+
+// A unit counts as a recurring weak spot once it has been flagged in at least
+// this many attempts, or in at least half of the attempts that touched it.
+const WEAK_UNIT_MIN_FLAGS = 2;
+const WEAK_UNIT_FLAG_RATIO = 0.5;
+
+/** Attempts whose evaluation succeeded; failed ones have no score to plot or analyse. */
+export function gradedAttempts(attempts: ExamAttempt[]): (ExamAttempt & { stats: GradedStats })[] {
+  return attempts.filter((a): a is ExamAttempt & { stats: GradedStats } => isGraded(a.stats));
+}
+
+/** Groups graded attempts into one chronological score series per class/difficulty pair. */
+export function buildScoreSeries(attempts: ExamAttempt[]): ScoreSeries[] {
+  const series: ScoreSeries[] = [];
+  for (const classLevel of Object.values(ClassLevel) as ClassLevel[]) {
+    for (const difficulty of Object.values(DifficultyLevel) as DifficultyLevel[]) {
+      const points = gradedAttempts(attempts)
+        .filter(a => a.classLevel === classLevel && a.difficulty === difficulty)
+        .sort((a, b) => a.startedAt - b.startedAt)
+        .map(a => ({ attemptId: a.id, timestamp: a.startedAt, score: a.stats.score }));
+      if (points.length > 0) series.push({ classLevel, difficulty, points });
+    }
+  }
+  return series;
+}
+
+/** Maps chapter IDs and free-text weaknesses from each graded report onto the syllabus units of a class. */
+export function analyseUnits(attempts: ExamAttempt[], classLevel: ClassLevel): UnitPerformance[] {
+  const relevant = gradedAttempts(attempts).filter(a => a.classLevel === classLevel);
+
+  return SYLLABUS_UNITS[classLevel].map(({ name }) => {
+    let covered = 0;
+    let flagged = 0;
+    let scoreTotal = 0;
+
+    for (const attempt of relevant) {
+      const isCovered = matchSyllabusUnits(classLevel, attempt.stats.topicsCovered).includes(name);
+      // Free-text weaknesses are only read for attempts archived before reports carried chapter IDs.
+      const isFlagged = matchSyllabusUnits(classLevel, attempt.stats.weakChapters ?? attempt.stats.weaknesses).includes(name);
+      if (isCovered || isFlagged) {
+        covered++;
+        scoreTotal += attempt.stats.score;
+      }
+      if (isFlagged) flagged++;
+    }
+
+    return {
+      unit: name,
+      covered,
+      flagged,
+      averageScore: covered > 0 ? Math.round(scoreTotal / covered) : null,
+      isWeak: flagged >= WEAK_UNIT_MIN_FLAGS || (covered > 0 && flagged / covered >= WEAK_UNIT_FLAG_RATIO)
+    };
+  });
+}
+
+/** Counts how often the same strength or weakness remark recurs, most frequent first. */
+export function countRemarks(remarks: string[], limit = 5): RecurringRemark[] {
+  const counts = new Map<string, RecurringRemark>();
+  for (const remark of remarks) {
+    const key = remark.trim().toLowerCase();
+    if (!key) continue;
+    const existing = counts.get(key);
+    if (existing) existing.count++;
+    else counts.set(key, { text: remark.trim(), count: 1 });
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+}
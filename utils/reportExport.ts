@@ -0,0 +1,298 @@
+
+import { ExamAttempt, PauseInterval } from '../types';
+import { examinerSubScores, isGraded } from './scoring';
+import { describeTopic, findExperiment } from '../data/syllabus';
+import { CHECKLIST_CATEGORY_LABELS } from '../data/practicals';
+import { OBSERVATION_ISSUE_LABELS, columnLabel, filledRows, roundForDisplay } from './observations';
+import { diagramFeedback } from './diagrams';
+import { INTEGRITY_EVENT_LABELS, formatSpan, integrityDuration } from './proctoring';
+
+/** Stable, human-readable session code derived from the attempt ID. */
+export function formatSessionId(attemptId: string): string {
+  const code = attemptId.replace(/[^a-zA-Z0-9]/g, '').slice(0, 8).toUpperCase();
+  return `VX-PR-${code}-B`;
+}
+
+/** One-line summary of the candidate's pauses, e.g. "Paused 2× for 3m 10s", or null when there were none. */
+export function formatPauseSummary(pauses: PauseInterval[] = []): string | null {
+  if (pauses.length === 0) return null;
+  const seconds = Math.round(pauses.reduce((sum, p) => sum + (p.endedAt - p.startedAt), 0) / 1000);
+  return `Paused ${pauses.length}× for ${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #0f172a; margin: 0; padding: 32px; line-height: 1.5; }
+  h1, h2, h3 { margin: 0 0 8px; }
+  h2 { font-size: 18px; border-bottom: 2px solid #4f46e5; padding-bottom: 4px; margin-top: 28px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #eef2ff; }
+  .muted { color: #64748b; font-size: 12px; }
+  .certificate { border: 6px double #4f46e5; padding: 48px; text-align: center; min-height: 90vh; display: flex; flex-direction: column; justify-content: center; gap: 16px; page-break-after: always; }
+  .certificate .grade { font-size: 64px; font-weight: bold; color: #4f46e5; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 48px; font-size: 12px; }
+  .signatures div { border-top: 1px solid #0f172a; padding-top: 4px; width: 40%; }
+  .chips span { display: inline-block; border: 1px solid #cbd5e1; border-radius: 12px; padding: 2px 10px; margin: 2px; font-size: 12px; }
+  .quote { font-style: italic; color: #475569; margin: 4px 0 0; }
+  .thumb { width: 160px; border: 1px solid #cbd5e1; border-radius: 4px; }
+  .turn { margin: 6px 0; font-size: 13px; }
+  .turn .who { font-weight: bold; }
+  @media print { body { padding: 0; } .certificate { min-height: 95vh; } }
+`;
+
+function renderCertificate(attempt: ExamAttempt, sessionId: string): string {
+  return `
+    <section class="certificate">
+      <p class="muted">Board of Secondary Education</p>
+      <h1>Certificate of Physics Practical Viva</h1>
+      <p>This is to certify that the candidate completed the Class ${escapeHtml(attempt.classLevel)} Physics viva voce
+        at ${escapeHtml(attempt.difficulty)} difficulty on ${escapeHtml(new Date(attempt.startedAt).toLocaleDateString())},
+        examined by ${escapeHtml(attempt.personaLabel)}, and was awarded</p>
+      <div class="grade">${escapeHtml(attempt.stats.grade)}</div>
+      <p>with an overall score of <strong>${attempt.stats.score}%</strong>.</p>
+      <p class="muted">Session ID: ${escapeHtml(sessionId)}</p>
+      <div class="signatures">
+        <div>External Examiner</div>
+        <div>Controller of Examinations</div>
+      </div>
+    </section>`;
+}
+
+function renderReport(attempt: ExamAttempt, sessionId: string): string {
+  const { stats } = attempt;
+  const pauseSummary = formatPauseSummary(attempt.pauses);
+  const criteria = stats.criteria && stats.criteria.length > 0 ? `
+    <h2>Rubric</h2>
+    <table>
+      <tr><th>Criterion</th><th>Weight</th><th>Marks</th><th>Justification</th></tr>
+      ${stats.criteria.map(c => `
+        <tr>
+          <td>${escapeHtml(c.label)}</td>
+          <td>${c.weight}</td>
+          <td>${c.marks}/${c.maxMarks}</td>
+          <td>${escapeHtml(c.justification)}${c.evidence.map(q => `<p class="quote">&ldquo;${escapeHtml(q)}&rdquo;</p>`).join('')}</td>
+        </tr>`).join('')}
+    </table>` : '';
+
+  const subScores = attempt.panel ? examinerSubScores(attempt.panel, attempt.questions ?? []) : [];
+  const panel = subScores.length > 0 ? `
+    <h2>Panel Sub-scores</h2>
+    <table>
+      <tr><th>Examiner</th><th>Questions</th><th>Marks</th><th>Score</th></tr>
+      ${subScores.map(s => `
+        <tr>
+          <td>${escapeHtml(s.examiner.label)}</td>
+          <td>${s.questionCount}</td>
+          <td>${s.marks}/${s.maxMarks}</td>
+          <td>${s.percent === null ? '&ndash;' : `${s.percent}%`}</td>
+        </tr>`).join('')}
+    </table>` : '';
+
+  const questions = attempt.questions && attempt.questions.length > 0 ? `
+    <h2>Question Review</h2>
+    <table>
+      <tr><th>#</th><th>Question</th><th>Candidate Answer</th><th>Ideal Answer</th><th>Marks</th></tr>
+      ${attempt.questions.map((q, i) => `
+        <tr>
+          <td>${i + 1}</td>
+          <td>${escapeHtml(q.question)}<p class="muted">${escapeHtml(describeTopic(q.chapterId))}</p></td>
+          <td>${escapeHtml(q.candidateAnswer)}</td>
+          <td>${escapeHtml(q.idealAnswer)}</td>
+          <td>${q.marks}/${q.maxMarks}</td>
+        </tr>`).join('')}
+    </table>` : '';
+
+  const checklist = attempt.experimentId && attempt.checklist && attempt.checklist.length > 0 ? `
+    <h2>Practical Checklist</h2>
+    <p>${escapeHtml(findExperiment(attempt.experimentId)?.experiment.title ?? attempt.experimentId)} &bull;
+      ${attempt.checklist.filter(c => c.addressed).length}/${attempt.checklist.length} addressed</p>
+    <table>
+      <tr><th>Item</th><th>Category</th><th>Addressed</th><th>Evidence</th></tr>
+      ${attempt.checklist.map(c => `
+        <tr>
+          <td>${escapeHtml(c.label)}</td>
+          <td>${escapeHtml(CHECKLIST_CATEGORY_LABELS[c.category])}</td>
+          <td>${c.addressed ? 'Yes' : 'No'}</td>
+          <td>${c.evidence ? `<p class="quote">&ldquo;${escapeHtml(c.evidence)}&rdquo;</p>` : ''}</td>
+        </tr>`).join('')}
+    </table>` : '';
+
+  const record = attempt.observations;
+  const observations = record ? `
+    <h2>Observation Table</h2>
+    <table>
+      <tr><th>#</th>${record.table.columns.map((c, i) => `<th>${escapeHtml(columnLabel(c, i))}${c.unit ? ` (${escapeHtml(c.unit)})` : ''}${c.leastCount ? `<p class="muted">L.C. ${c.leastCount}</p>` : ''}</th>`).join('')}</tr>
+      ${filledRows(record.table).map((row, r) => `
+        <tr><td>${r + 1}</td>${row.map(cell => `<td>${escapeHtml(cell || '–')}</td>`).join('')}</tr>`).join('')}
+      ${record.table.means.some(m => m.trim()) ? `
+        <tr><td>Mean</td>${record.table.means.map((m, i) => {
+          const computed = record.check.means[i];
+          return `<td>${escapeHtml(m || '–')}${computed !== null && computed !== undefined ? `<p class="muted">calc. ${roundForDisplay(computed)}</p>` : ''}</td>`;
+        }).join('')}</tr>` : ''}
+    </table>
+    ${record.table.slope ? `<p>Slope: ${escapeHtml(record.table.slope.value || '–')}${record.check.slope !== undefined ? ` (calc. ${roundForDisplay(record.check.slope)})` : ''}</p>` : ''}
+    ${record.table.result?.value ? `<p>Result: ${escapeHtml(`${record.table.result.value} ${record.table.result.unit}`)}${record.table.result.percentError ? ` &bull; ${escapeHtml(record.table.result.percentError)}% error` : ''}${record.check.percentError !== undefined ? ` (calc. ${roundForDisplay(record.check.percentError)}%)` : ''}</p>` : ''}
+    ${record.check.issues.length > 0 ? `
+      <table>
+        <tr><th>Error</th><th>Detail</th></tr>
+        ${record.check.issues.map(issue => `<tr><td>${escapeHtml(OBSERVATION_ISSUE_LABELS[issue.kind])}</td><td>${escapeHtml(issue.message)}</td></tr>`).join('')}
+      </table>` : '<p class="muted">No errors found in the recorded arithmetic.</p>'}` : '';
+
+  const diagramList = diagramFeedback(attempt.transcript);
+  const diagrams = diagramList.length > 0 ? `
+    <h2>Diagram Feedback</h2>
+    <table>
+      <tr><th>Diagram</th><th>Examiner's comments</th></tr>
+      ${diagramList.map(({ entry, comment }) => `
+        <tr>
+          <td><img class="thumb" src="${escapeHtml(entry.image ?? '')}" alt="Diagram"><p class="muted">${escapeHtml(entry.text)} &bull; ${escapeHtml(formatClock(entry.timestamp))}</p></td>
+          <td>${comment ? escapeHtml(comment.text) : '<span class="muted">No comment before the viva ended.</span>'}</td>
+        </tr>`).join('')}
+    </table>` : '';
+
+  const trajectory = attempt.difficultyTrajectory && attempt.difficultyTrajectory.length > 0 ? `
+    <h2>Adaptive Difficulty</h2>
+    <table>
+      <tr><th>#</th><th>Time</th><th>Level</th><th>Marks</th></tr>
+      ${attempt.difficultyTrajectory.map((p, i) => `
+        <tr>
+          <td>${i + 1}</td>
+          <td>${escapeHtml(formatClock(p.timestamp))}</td>
+          <td>${escapeHtml(p.difficulty)}</td>
+          <td>${p.marks}/${p.maxMarks}</td>
+        </tr>`).join('')}
+    </table>` : '';
+
+  const log = attempt.integrity;
+  const integrity = log ? `
+    <h2>Integrity</h2>
+    <table>
+      <tr><th>Check</th><th>Flagged</th><th>Total time</th></tr>
+      ${log.checks.map(kind => {
+        const count = log.events.filter(e => e.kind === kind).length;
+        return `<tr><td>${escapeHtml(INTEGRITY_EVENT_LABELS[kind])}</td><td>${count}</td><td>${count > 0 ? formatSpan(integrityDuration(log.events, kind, attempt.endedAt)) : '–'}</td></tr>`;
+      }).join('')}
+    </table>
+    ${log.events.length > 0 ? `
+      <table>
+        <tr><th>Time</th><th>Signal</th><th>Duration</th><th>Detail</th></tr>
+        ${log.events.map(e => `
+          <tr>
+            <td>${escapeHtml(formatClock(e.startedAt))}</td>
+            <td>${escapeHtml(INTEGRITY_EVENT_LABELS[e.kind])}</td>
+            <td>${formatSpan((e.endedAt ?? attempt.endedAt) - e.startedAt)}${e.endedAt === undefined ? ' (to end)' : ''}</td>
+            <td>${escapeHtml(e.detail ?? '–')}</td>
+          </tr>`).join('')}
+      </table>` : '<p class="muted">Nothing was flagged during the viva.</p>'}` : '';
+
+  const transcript = attempt.transcript.length > 0
+    ? attempt.transcript.map(t => `
+      <p class="turn"><span class="muted">[${escapeHtml(formatClock(t.timestamp))}]</span>
+        <span class="who">${escapeHtml(t.senderName ?? (t.role === 'user' ? 'Candidate' : 'Examiner'))}:</span>
+        ${escapeHtml(t.text)}</p>`).join('')
+    : '<p class="muted">No transcript was captured.</p>';
+
+  return `
+    <section>
+      <h1>Board Evaluation Report</h1>
+      <p class="muted">Session ID: ${escapeHtml(sessionId)} &bull; ${escapeHtml(new Date(attempt.startedAt).toLocaleString())}
+        &ndash; ${escapeHtml(new Date(attempt.endedAt).toLocaleTimeString())}
+        ${pauseSummary ? `&bull; ${escapeHtml(pauseSummary)}` : ''}</p>
+      <table>
+        <tr><th>Grade</th><th>Score</th><th>Class</th><th>Difficulty</th><th>Duration</th><th>Examiner</th></tr>
+        <tr>
+          <td>${isGraded(stats) ? escapeHtml(stats.grade) : 'Not graded'}</td>
+          <td>${isGraded(stats) ? `${stats.score}%` : '&ndash;'}</td>
+          <td>${escapeHtml(attempt.classLevel)}</td>
+          <td>${escapeHtml(attempt.difficulty)}</td>
+          <td>${Math.floor(attempt.durationSeconds / 60)} min</td>
+          <td>${escapeHtml(attempt.personaLabel)}</td>
+        </tr>
+      </table>
+      ${criteria}
+      ${panel}
+      <h2>${stats.evaluationFailed ? 'Evaluation Failed' : 'Examiner Feedback'}</h2>
+      <p>${escapeHtml(stats.feedback)}</p>
+      <h3>Strengths</h3>
+      <ul>${stats.strengths.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>
+      <h3>Areas for Improvement</h3>
+      <ul>${stats.weaknesses.map(w => `<li>${escapeHtml(w)}</li>`).join('')}</ul>
+      <h2>Syllabus Coverage</h2>
+      <p class="chips">${stats.topicsCovered.map(t => `<span>${escapeHtml(describeTopic(t))}</span>`).join('')}</p>
+      ${checklist}
+      ${observations}
+      ${diagrams}
+      ${trajectory}
+      ${integrity}
+      ${questions}
+      <h2>Full Transcript</h2>
+      ${transcript}
+    </section>`;
+}
+
+/**
+ * Builds a self-contained HTML document holding the certificate followed by the full evaluation report.
+ * Attempts whose evaluation failed get the report only.
+ */
+export function buildReportHtml(attempt: ExamAttempt): string {
+  const sessionId = formatSessionId(attempt.id);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Physics Viva Report ${escapeHtml(sessionId)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${isGraded(attempt.stats) ? renderCertificate(attempt, sessionId) : ''}
+${renderReport(attempt, sessionId)}
+</body>
+</html>`;
+}
+
+export function downloadFile(contents: BlobPart, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadReportHtml(attempt: ExamAttempt) {
+  downloadFile(buildReportHtml(attempt), `${formatSessionId(attempt.id)}.html`, 'text/html');
+}
+
+/** Opens the browser print dialog (which also offers "Save as PDF") for the report in a hidden frame. */
+export function printReport(attempt: ExamAttempt) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = buildReportHtml(attempt);
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { applyRubric, examinerSubScores, gradeForScore, isGraded, weightedScore } from './scoring';
+import { DEFAULT_RUBRIC } from '../data/rubric';
+import { QuestionReview, Rubric } from '../types';
+
+const rubric: Rubric = {
+  id: 'test',
+  name: 'Test',
+  criteria: [
+    { id: 'a', label: 'A', description: '', weight: 3, maxMarks: 10 },
+    { id: 'b', label: 'B', description: '', weight: 1, maxMarks: 5 }
+  ],
+  gradeBands: [
+    { grade: 'A', minPercent: 80 },
+    { grade: 'B', minPercent: 50 },
+    { grade: 'C', minPercent: 0 }
+  ]
+};
+
+const question = (examinerId: string, marks: number): QuestionReview => ({
+  question: 'Q', candidateAnswer: 'A', followUps: [], chapterId: 'xi-ch01',
+  marks, maxMarks: 5, idealAnswer: '', comment: '', examinerId
+});
+
+describe('applyRubric', () => {
+  it('clamps marks to each criterion and scores missing criteria as zero', () => {
+    const scores = applyRubric(rubric, [{ criterionId: 'a', marks: 14, justification: 'Good', evidence: ['quote'] }]);
+    expect(scores).toEqual([
+      { criterionId: 'a', label: 'A', weight: 3, maxMarks: 10, marks: 10, justification: 'Good', evidence: ['quote'] },
+      { criterionId: 'b', label: 'B', weight: 1, maxMarks: 5, marks: 0, justification: 'Not assessed.', evidence: [] }
+    ]);
+  });
+
+  it('treats negative and non-numeric marks as out of range', () => {
+    const scores = applyRubric(rubric, [
+      { criterionId: 'a', marks: -2, justification: '' },
+      { criterionId: 'b', marks: Number('x'), justification: '' }
+    ]);
+    expect(scores.map(s => s.marks)).toEqual([0, 0]);
+  });
+});
+
+describe('weightedScore', () => {
+  it('weights each criterion by its share of the total weight', () => {
+    const scores = applyRubric(rubric, [
+      { criterionId: 'a', marks: 5, justification: '' },
+      { criterionId: 'b', marks: 5, justification: '' }
+    ]);
+    expect(weightedScore(scores)).toBe(63);
+  });
+
+  it('is zero when no criterion carries weight', () => {
+    expect(weightedScore([])).toBe(0);
+  });
+});
+
+describe('gradeForScore', () => {
+  it('picks the first band the score reaches', () => {
+    expect(gradeForScore(rubric, 80)).toBe('A');
+    expect(gradeForScore(rubric, 79)).toBe('B');
+    expect(gradeForScore(rubric, 0)).toBe('C');
+  });
+
+  it('covers every score with the board default bands', () => {
+    for (const score of [0, 33, 50, 91, 100]) {
+      expect(DEFAULT_RUBRIC.gradeBands.map(b => b.grade)).toContain(gradeForScore(DEFAULT_RUBRIC, score));
+    }
+  });
+});
+
+describe('examinerSubScores', () => {
+  it('totals marks per panel examiner in panel order', () => {
+    const panel = [{ id: 'p1', label: 'One', icon: '' }, { id: 'p2', label: 'Two', icon: '' }, { id: 'p3', label: 'Three', icon: '' }];
+    const scores = examinerSubScores(panel, [question('p2', 4), question('p1', 2), question('p2', 5)]);
+    expect(scores.map(s => [s.examiner.id, s.questionCount, s.marks, s.maxMarks, s.percent])).toEqual([
+      ['p1', 1, 2, 5, 40],
+      ['p2', 2, 9, 10, 90],
+      ['p3', 0, 0, 0, null]
+    ]);
+  });
+});
+
+describe('isGraded', () => {
+  const base = { feedback: '', strengths: [], weaknesses: [], topicsCovered: [] };
+
+  it('accepts a report with a grade and score', () => {
+    expect(isGraded({ ...base, grade: 'A1', score: 92 })).toBe(true);
+  });
+
+  it('rejects a failed evaluation', () => {
+    expect(isGraded({ ...base, evaluationFailed: true })).toBe(false);
+    expect(isGraded({ ...base, grade: 'A1', score: 92, evaluationFailed: true })).toBe(false);
+  });
+});
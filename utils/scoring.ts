@@ -0,0 +1,71 @@
+
+import { Rubric, CriterionScore, ExamStats, PanelExaminer, QuestionReview } from '../types';
+
+export interface CriterionMark {
+  criterionId: string;
+  marks: number;
+  justification: string;
+  evidence?: string[];
+}
+
+/** Pairs the model's marks with the rubric, clamping each to the criterion's range. Missing criteria score zero. */
+export function applyRubric(rubric: Rubric, marks: CriterionMark[]): CriterionScore[] {
+  return rubric.criteria.map(criterion => {
+    const mark = marks.find(m => m.criterionId === criterion.id);
+    const raw = Number(mark?.marks);
+    return {
+      criterionId: criterion.id,
+      label: criterion.label,
+      weight: criterion.weight,
+      maxMarks: criterion.maxMarks,
+      marks: Number.isFinite(raw) ? Math.min(criterion.maxMarks, Math.max(0, raw)) : 0,
+      justification: mark?.justification ?? 'Not assessed.',
+      evidence: mark?.evidence ?? []
+    };
+  });
+}
+
+/** Weighted percentage across criteria, rounded to a whole number. */
+export function weightedScore(criteria: CriterionScore[]): number {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return 0;
+  const weighted = criteria.reduce((sum, c) => sum + c.weight * (c.maxMarks > 0 ? c.marks / c.maxMarks : 0), 0);
+  return Math.round((weighted / totalWeight) * 100);
+}
+
+export function gradeForScore(rubric: Rubric, score: number): string {
+  const band = rubric.gradeBands.find(b => score >= b.minPercent);
+  return band ? band.grade : rubric.gradeBands[rubric.gradeBands.length - 1].grade;
+}
+
+export interface ExaminerSubScore {
+  examiner: PanelExaminer;
+  questionCount: number;
+  marks: number;
+  maxMarks: number;
+  /** Null when the examiner asked no scored question. */
+  percent: number | null;
+}
+
+/** Totals question marks per panel examiner, in panel order. */
+export function examinerSubScores(panel: PanelExaminer[], questions: QuestionReview[]): ExaminerSubScore[] {
+  return panel.map(examiner => {
+    const asked = questions.filter(q => q.examinerId === examiner.id);
+    const marks = asked.reduce((sum, q) => sum + q.marks, 0);
+    const maxMarks = asked.reduce((sum, q) => sum + q.maxMarks, 0);
+    return {
+      examiner,
+      questionCount: asked.length,
+      marks,
+      maxMarks,
+      percent: maxMarks > 0 ? Math.round((marks / maxMarks) * 100) : null
+    };
+  });
+}
+
+export type GradedStats = ExamStats & { grade: string; score: number };
+
+/** True for a report that carries a grade and score, i.e. whose evaluation did not fail. */
+export function isGraded(stats: ExamStats): stats is GradedStats {
+  return !stats.evaluationFailed && typeof stats.grade === 'string' && typeof stats.score === 'number';
+}
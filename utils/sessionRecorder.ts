@@ -0,0 +1,80 @@
+
+import { ExamAttempt, SessionRecording } from '../types';
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface SessionRecorder {
+  /** Connect examiner playback nodes here (in addition to the speakers) to capture them. */
+  destination: MediaStreamAudioDestinationNode;
+  attachMicrophone: (stream: MediaStream) => void;
+  start: () => void;
+  stop: () => Promise<SessionRecording | null>;
+}
+
+/**
+ * Mixes the candidate's microphone with the examiner's output inside `ctx` and records the
+ * result with MediaRecorder. Returns null where MediaRecorder is unavailable.
+ */
+export function createSessionRecorder(ctx: AudioContext): SessionRecorder | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+
+  const destination = ctx.createMediaStreamDestination();
+  const mimeType = PREFERRED_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? '';
+  const chunks: Blob[] = [];
+  let micSource: MediaStreamAudioSourceNode | null = null;
+  let recorder: MediaRecorder | null = null;
+  let startedAt = 0;
+
+  return {
+    destination,
+
+    // The microphone stream is replaced whenever the session restarts, so the
+    // previous source is detached before the new one is mixed in.
+    attachMicrophone(stream) {
+      micSource?.disconnect();
+      micSource = ctx.createMediaStreamSource(stream);
+      micSource.connect(destination);
+    },
+
+    start() {
+      if (recorder) return;
+      recorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start(1000);
+      startedAt = Date.now();
+    },
+
+    stop() {
+      return new Promise((resolve) => {
+        if (!recorder || recorder.state === 'inactive') {
+          resolve(null);
+          return;
+        }
+        const active = recorder;
+        active.onstop = () => {
+          micSource?.disconnect();
+          micSource = null;
+          const type = active.mimeType || mimeType || 'audio/webm';
+          resolve(chunks.length > 0 ? { blob: new Blob(chunks, { type }), mimeType: type, startedAt } : null);
+        };
+        active.stop();
+      });
+    }
+  };
+}
+
+/** An attempt's recordings in order, whether archived as one `recording` or as segments. */
+export function attemptRecordings(attempt: ExamAttempt): SessionRecording[] {
+  return attempt.recordings ?? (attempt.recording ? [attempt.recording] : []);
+}
+
+/** The recording a transcript line falls in: the last one that had started by then. */
+export function recordingIndexAt(recordings: SessionRecording[], timestamp: number): number {
+  let index = 0;
+  recordings.forEach((r, i) => {
+    if (r.startedAt <= timestamp) index = i;
+  });
+  return index;
+}
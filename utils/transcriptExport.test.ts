@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { captionTracks, parseTranscriptExport, toSrt, toTranscriptExport, toWebVtt } from './transcriptExport';
+import { checkObservations } from './observations';
+import { ClassLevel, DifficultyLevel, ExamAttempt, ExamMode, ObservationTable } from '../types';
+
+const table: ObservationTable = {
+  columns: [{ name: 'Length L', unit: 'cm', leastCount: 0.1 }, { name: 'Time t', unit: 's', leastCount: 0.1 }],
+  rows: [['60.0', '31.2'], ['80.0', '35.9']],
+  means: ['70.0', '33.6'],
+  slope: { x: 0, y: 1, value: '0.23' },
+  result: { value: '9.7', unit: 'm/s²', standardValue: '9.8', percentError: '1.0' }
+};
+
+const attempt: ExamAttempt = {
+  id: 'attempt-1234abcd',
+  classLevel: ClassLevel.XI,
+  difficulty: DifficultyLevel.MEDIUM,
+  durationSeconds: 300,
+  mode: ExamMode.TEXT,
+  syllabusUnitIds: ['xi-u01'],
+  personaId: 'strict',
+  personaLabel: 'Dr. Sharma & Prof. Iyer',
+  panel: [{ id: 'strict', label: 'Dr. Sharma', icon: '🧑‍🏫' }, { id: 'friendly', label: 'Prof. Iyer', icon: '👩‍🔬' }],
+  experimentId: 'vernier-callipers',
+  transcript: [
+    { role: 'examiner', text: 'What is the least count of a Vernier calliper?', timestamp: 1000, senderName: 'Dr. Sharma', examinerId: 'strict' },
+    { role: 'user', text: 'Sir, it is 0.1 mm.', timestamp: 4000 },
+    { role: 'system', text: 'Prof. Iyer takes over.', timestamp: 5000 },
+    { role: 'user', text: 'Here is my diagram.', timestamp: 9000, image: 'data:image/jpeg;base64,AAAA' }
+  ],
+  stats: { grade: 'B1', score: 74, feedback: '', strengths: [], weaknesses: [], topicsCovered: [] },
+  pauses: [{ startedAt: 6000, endedAt: 8000 }],
+  difficultyTrajectory: [{ timestamp: 4000, marks: 4, maxMarks: 5, difficulty: DifficultyLevel.MEDIUM }],
+  observations: { table, check: checkObservations(table), submittedAt: 8500 },
+  integrity: { checks: ['focus-lost', 'face-absent'], events: [{ kind: 'focus-lost', startedAt: 7000, endedAt: 7500 }] },
+  startedAt: 500,
+  endedAt: 10000
+};
+
+const roundTrip = (value: unknown) => parseTranscriptExport(JSON.stringify(value));
+
+describe('transcript export', () => {
+  it('round-trips every field needed to re-grade the viva', () => {
+    const exported = toTranscriptExport(attempt);
+    expect(roundTrip(exported)).toEqual(exported);
+  });
+
+  it('recomputes observation checks rather than trusting the file', () => {
+    const exported = toTranscriptExport(attempt);
+    const tampered = { ...exported, observations: { ...exported.observations, check: { means: [], issues: [] } } };
+    expect(roundTrip(tampered).observations?.check).toEqual(checkObservations(table));
+  });
+
+  it('still imports a version 1 file without the newer fields', () => {
+    const { mode, panel, experimentId, pauses, difficultyTrajectory, observations, integrity, ...v1 } = toTranscriptExport(attempt);
+    const parsed = roundTrip({ ...v1, version: 1 });
+    expect(parsed.version).toBe(1);
+    expect(parsed.transcript).toEqual(attempt.transcript);
+    expect(parsed.experimentId).toBeUndefined();
+    expect(parsed.observations).toBeUndefined();
+  });
+
+  it('rejects files it cannot read', () => {
+    const exported = toTranscriptExport(attempt);
+    expect(() => parseTranscriptExport('{')).toThrow('File is not valid JSON.');
+    expect(() => roundTrip({ ...exported, format: 'other' })).toThrow('not a Physics Viva transcript export');
+    expect(() => roundTrip({ ...exported, version: 99 })).toThrow('newer than this app supports');
+    expect(() => roundTrip({ ...exported, classLevel: '10th' })).toThrow('unknown class or difficulty');
+    expect(() => roundTrip({ ...exported, transcript: [{ role: 'user', text: 'Hi' }] })).toThrow('Transcript entries');
+  });
+
+  it('rejects malformed optional fields instead of dropping them', () => {
+    const exported = toTranscriptExport(attempt);
+    expect(() => roundTrip({ ...exported, mode: 'VIDEO' })).toThrow('unknown exam mode');
+    expect(() => roundTrip({ ...exported, pauses: [{ startedAt: 1 }] })).toThrow('Pauses are malformed.');
+    expect(() => roundTrip({ ...exported, integrity: { checks: ['telepathy'], events: [] } })).toThrow('Integrity log is malformed.');
+    expect(() => roundTrip({ ...exported, observations: { table: { columns: [] } } })).toThrow('Observation table is malformed.');
+  });
+});
+
+describe('captions', () => {
+  it('times cues from the recording start and clips them at the next cue', () => {
+    const srt = toSrt(attempt.transcript.slice(0, 2), 1000);
+    expect(srt).toBe(
+      '1\n00:00:00,000 --> 00:00:03,000\nDr. Sharma: What is the least count of a Vernier calliper?\n\n' +
+      '2\n00:00:03,000 --> 00:00:05,000\nCandidate: Sir, it is 0.1 mm.\n'
+    );
+  });
+
+  it('writes a WebVTT header and dot-separated milliseconds', () => {
+    expect(toWebVtt(attempt.transcript.slice(1, 2), 0)).toBe('WEBVTT\n\n00:00:04.000 --> 00:00:06.000\nCandidate: Sir, it is 0.1 mm.\n');
+  });
+});
+
+describe('captionTracks', () => {
+  const recording = (startedAt: number) => ({ blob: new Blob(), mimeType: 'audio/webm', startedAt });
+
+  it('times a single recording from its start', () => {
+    expect(captionTracks({ ...attempt, recordings: [recording(800)] })).toEqual([{ transcript: attempt.transcript, origin: 800 }]);
+  });
+
+  it('gives each part of a resumed viva its own track timed from that part', () => {
+    const tracks = captionTracks({ ...attempt, recordings: [recording(800), recording(8000)] });
+    expect(tracks.map(t => [t.part, t.origin, t.transcript.map(e => e.timestamp)])).toEqual([
+      [1, 800, [1000, 4000, 5000]],
+      [2, 8000, [9000]]
+    ]);
+  });
+});
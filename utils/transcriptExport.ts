@@ -0,0 +1,285 @@
+
+import {
+  ClassLevel, DifficultyLevel, DifficultyPoint, ExamAttempt, ExamMode, IntegrityEvent, IntegrityEventKind, IntegrityLog,
+  ObservationRecord, ObservationTable, PanelExaminer, PauseInterval, TranscriptionEntry
+} from '../types';
+import { downloadFile, formatSessionId } from './reportExport';
+import { checkObservations } from './observations';
+import { attemptRecordings, recordingIndexAt } from './sessionRecorder';
+import { INTEGRITY_EVENT_LABELS } from './proctoring';
+import { isArrayOf, isNumber, isObject, isOneOf, isString } from './jsonGuards';
+
+export const TRANSCRIPT_FORMAT = 'physics-viva-transcript';
+// Version 2 added the practical, panel, pause, adaptive, observation and integrity fields; version 1 files still import.
+export const TRANSCRIPT_FORMAT_VERSION = 2;
+
+/** Everything needed to re-grade a viva from scratch; produced by JSON export and accepted by import. */
+export interface TranscriptExport {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  sessionId: string;
+  classLevel: ClassLevel;
+  difficulty: DifficultyLevel;
+  durationSeconds: number;
+  mode?: ExamMode;
+  syllabusUnitIds: string[];
+  personaId: string;
+  personaLabel: string;
+  panel?: PanelExaminer[];
+  experimentId?: string;
+  startedAt: number;
+  endedAt: number;
+  transcript: TranscriptionEntry[];
+  pauses?: PauseInterval[];
+  difficultyTrajectory?: DifficultyPoint[];
+  observations?: ObservationRecord;
+  integrity?: IntegrityLog;
+}
+
+// Entries only carry the time their turn began, so each cue gets an estimated
+// reading time that is clipped to the start of the next cue.
+const CUE_SECONDS_PER_WORD = 0.4;
+const CUE_MIN_SECONDS = 2;
+
+function speakerName(entry: TranscriptionEntry): string {
+  return entry.senderName ?? (entry.role === 'user' ? 'Candidate' : 'Examiner');
+}
+
+export function toTranscriptExport(attempt: ExamAttempt): TranscriptExport {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_FORMAT_VERSION,
+    sessionId: formatSessionId(attempt.id),
+    classLevel: attempt.classLevel,
+    difficulty: attempt.difficulty,
+    durationSeconds: attempt.durationSeconds,
+    mode: attempt.mode,
+    syllabusUnitIds: attempt.syllabusUnitIds ?? [],
+    personaId: attempt.personaId,
+    personaLabel: attempt.personaLabel,
+    panel: attempt.panel,
+    experimentId: attempt.experimentId,
+    startedAt: attempt.startedAt,
+    endedAt: attempt.endedAt,
+    transcript: attempt.transcript,
+    pauses: attempt.pauses,
+    difficultyTrajectory: attempt.difficultyTrajectory,
+    observations: attempt.observations,
+    integrity: attempt.integrity
+  };
+}
+
+const isClassLevel = isOneOf(Object.values(ClassLevel));
+const isDifficulty = isOneOf(Object.values(DifficultyLevel));
+const isExamMode = isOneOf(Object.values(ExamMode));
+const isIntegrityKind = isOneOf(Object.keys(INTEGRITY_EVENT_LABELS) as IntegrityEventKind[]);
+
+function isTranscriptEntry(value: unknown): value is TranscriptionEntry {
+  return isObject(value)
+    && isOneOf(['user', 'examiner', 'system'] as const)(value.role)
+    && isString(value.text)
+    && isNumber(value.timestamp)
+    && (value.senderName === undefined || isString(value.senderName))
+    && (value.examinerId === undefined || isString(value.examinerId))
+    && (value.image === undefined || isString(value.image));
+}
+
+function isPanelExaminer(value: unknown): value is PanelExaminer {
+  return isObject(value) && isString(value.id) && isString(value.label) && isString(value.icon);
+}
+
+function isPause(value: unknown): value is PauseInterval {
+  return isObject(value) && isNumber(value.startedAt) && isNumber(value.endedAt);
+}
+
+function isDifficultyPoint(value: unknown): value is DifficultyPoint {
+  return isObject(value) && isNumber(value.timestamp) && isNumber(value.marks) && isNumber(value.maxMarks) && isDifficulty(value.difficulty);
+}
+
+function isObservationTable(value: unknown): value is ObservationTable {
+  return isObject(value)
+    && isArrayOf(value.columns, (c): c is ObservationTable['columns'][number] =>
+      isObject(c) && isString(c.name) && isString(c.unit) && (c.leastCount === undefined || isNumber(c.leastCount)))
+    && isArrayOf(value.rows, (r): r is string[] => isArrayOf(r, isString))
+    && isArrayOf(value.means, isString)
+    && (value.slope === undefined || (isObject(value.slope) && isNumber(value.slope.x) && isNumber(value.slope.y) && isString(value.slope.value)))
+    && (value.result === undefined || (isObject(value.result) && isString(value.result.value) && isString(value.result.unit)));
+}
+
+function isIntegrityEvent(value: unknown): value is IntegrityEvent {
+  return isObject(value)
+    && isIntegrityKind(value.kind)
+    && isNumber(value.startedAt)
+    && (value.endedAt === undefined || isNumber(value.endedAt))
+    && (value.detail === undefined || isString(value.detail));
+}
+
+function isIntegrityLog(value: unknown): value is IntegrityLog {
+  return isObject(value) && isArrayOf(value.checks, isIntegrityKind) && isArrayOf(value.events, isIntegrityEvent);
+}
+
+/** Checks an optional field, throwing `message` when it is present but malformed. */
+function optional<T>(value: unknown, guard: (value: unknown) => value is T, message: string): T | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!guard(value)) throw new Error(message);
+  return value;
+}
+
+/**
+ * Parses and validates a JSON transcript export, throwing an Error describing the first problem found.
+ * Observation checks are recomputed from the table rather than trusted from the file.
+ */
+export function parseTranscriptExport(json: string): TranscriptExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== TRANSCRIPT_FORMAT) {
+    throw new Error('File is not a Physics Viva transcript export.');
+  }
+  const version = isNumber(data.version) ? data.version : 1;
+  if (version > TRANSCRIPT_FORMAT_VERSION) {
+    throw new Error(`Transcript format version ${version} is newer than this app supports.`);
+  }
+  if (!isClassLevel(data.classLevel) || !isDifficulty(data.difficulty)) {
+    throw new Error('Transcript has an unknown class or difficulty level.');
+  }
+  if (!isArrayOf(data.transcript, isTranscriptEntry)) {
+    throw new Error('Transcript entries are missing or malformed.');
+  }
+  const transcript = data.transcript;
+  const observationsData = isObject(data.observations) ? data.observations : undefined;
+  const table = optional(observationsData?.table, isObservationTable, 'Observation table is malformed.');
+
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version,
+    sessionId: isString(data.sessionId) ? data.sessionId : '',
+    classLevel: data.classLevel,
+    difficulty: data.difficulty,
+    durationSeconds: isNumber(data.durationSeconds) ? data.durationSeconds : 0,
+    mode: optional(data.mode, isExamMode, 'Transcript has an unknown exam mode.'),
+    syllabusUnitIds: isArrayOf(data.syllabusUnitIds, isString) ? data.syllabusUnitIds : [],
+    personaId: isString(data.personaId) ? data.personaId : '',
+    personaLabel: isString(data.personaLabel) ? data.personaLabel : 'Examiner',
+    panel: optional(data.panel, (v): v is PanelExaminer[] => isArrayOf(v, isPanelExaminer), 'Panel examiners are malformed.'),
+    experimentId: optional(data.experimentId, isString, 'Experiment ID is malformed.'),
+    startedAt: isNumber(data.startedAt) ? data.startedAt : transcript[0]?.timestamp ?? Date.now(),
+    endedAt: isNumber(data.endedAt) ? data.endedAt : transcript[transcript.length - 1]?.timestamp ?? Date.now(),
+    transcript,
+    pauses: optional(data.pauses, (v): v is PauseInterval[] => isArrayOf(v, isPause), 'Pauses are malformed.'),
+    difficultyTrajectory: optional(data.difficultyTrajectory, (v): v is DifficultyPoint[] => isArrayOf(v, isDifficultyPoint), 'Difficulty trajectory is malformed.'),
+    observations: table && {
+      table,
+      check: checkObservations(table),
+      submittedAt: isNumber(observationsData?.submittedAt) ? observationsData.submittedAt : transcript[transcript.length - 1]?.timestamp ?? Date.now()
+    },
+    integrity: optional(data.integrity, isIntegrityLog, 'Integrity log is malformed.')
+  };
+}
+
+export function toMarkdown(attempt: ExamAttempt): string {
+  const lines = [
+    `# Physics Viva Transcript — ${formatSessionId(attempt.id)}`,
+    '',
+    `- **Class:** ${attempt.classLevel}`,
+    `- **Difficulty:** ${attempt.difficulty}`,
+    `- **Examiner:** ${attempt.personaLabel}`,
+    `- **Date:** ${new Date(attempt.startedAt).toLocaleString()}`,
+    ''
+  ];
+  for (const entry of attempt.transcript) {
+    const time = new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    lines.push(`**${speakerName(entry)}** _(${time})_  `, entry.text, '');
+  }
+  return lines.join('\n');
+}
+
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Builds caption cues with times relative to `origin` (the recording start). */
+function buildCues(transcript: TranscriptionEntry[], origin: number): Cue[] {
+  return transcript.map((entry, i) => {
+    const start = entry.timestamp - origin;
+    const estimated = Math.max(CUE_MIN_SECONDS, entry.text.split(/\s+/).length * CUE_SECONDS_PER_WORD) * 1000;
+    const next = transcript[i + 1];
+    const nextStart = next ? next.timestamp - origin : Infinity;
+    const end = nextStart > start ? Math.min(start + estimated, nextStart) : start + estimated;
+    return { start, end, text: `${speakerName(entry)}: ${entry.text}` };
+  });
+}
+
+export function toSrt(transcript: TranscriptionEntry[], origin: number): string {
+  return buildCues(transcript, origin)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(transcript: TranscriptionEntry[], origin: number): string {
+  const cues = buildCues(transcript, origin)
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+export interface CaptionTrack {
+  /** 1-based recording part, or undefined when the viva has a single recording. */
+  part?: number;
+  transcript: TranscriptionEntry[];
+  origin: number;
+}
+
+/**
+ * Splits the transcript into one caption track per recording, each timed from that recording's
+ * start, so a viva resumed after a drop gets captions that line up with every part's audio.
+ */
+export function captionTracks(attempt: ExamAttempt): CaptionTrack[] {
+  const recordings = attemptRecordings(attempt);
+  if (recordings.length <= 1) {
+    return [{ transcript: attempt.transcript, origin: recordings[0]?.startedAt ?? attempt.startedAt }];
+  }
+  return recordings.map((recording, i) => ({
+    part: i + 1,
+    transcript: attempt.transcript.filter(entry => recordingIndexAt(recordings, entry.timestamp) === i),
+    origin: recording.startedAt
+  }));
+}
+
+export type TranscriptFormat = 'json' | 'md' | 'srt' | 'vtt';
+
+export function downloadTranscript(attempt: ExamAttempt, format: TranscriptFormat) {
+  const baseName = `${formatSessionId(attempt.id)}-transcript`;
+  const downloadCaptions = (extension: string, mimeType: string, build: (transcript: TranscriptionEntry[], origin: number) => string) =>
+    captionTracks(attempt).forEach(({ part, transcript, origin }) =>
+      downloadFile(build(transcript, origin), `${baseName}${part ? `-part${part}` : ''}.${extension}`, mimeType));
+  switch (format) {
+    case 'json':
+      downloadFile(JSON.stringify(toTranscriptExport(attempt), null, 2), `${baseName}.json`, 'application/json');
+      break;
+    case 'md':
+      downloadFile(toMarkdown(attempt), `${baseName}.md`, 'text/markdown');
+      break;
+    case 'srt':
+      downloadCaptions('srt', 'application/x-subrip', toSrt);
+      break;
+    case 'vtt':
+      downloadCaptions('vtt', 'text/vtt', toWebVtt);
+      break;
+  }
+}
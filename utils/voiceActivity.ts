@@ -0,0 +1,62 @@
+
+import { MicChunk, CAPTURE_CHUNK_SAMPLES, CAPTURE_SAMPLE_RATE } from './micCapture';
+
+const CHUNK_MS = (CAPTURE_CHUNK_SAMPLES / CAPTURE_SAMPLE_RATE) * 1000;
+
+// Speech opens the gate when the chunk RMS clears both an absolute floor and a multiple of
+// the tracked background noise; it closes after HANGOVER_MS of quieter chunks.
+const MIN_SPEECH_RMS = 0.015;
+const NOISE_MULTIPLIER = 3;
+const NOISE_SMOOTHING = 0.05;
+const HANGOVER_MS = 700;
+// Chunks held back while closed and flushed on opening, so word onsets are not clipped.
+const PRE_ROLL_CHUNKS = 3;
+
+export interface VoiceActivityHandlers {
+  send: (pcm: string) => void;
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+}
+
+export interface VoiceActivityGate {
+  process: (chunk: MicChunk) => void;
+}
+
+/**
+ * Energy-based voice activity detector with an adaptive noise floor. Speech chunks (plus a
+ * short pre-roll) go to `send`; `onSpeechStart`/`onSpeechEnd` bracket each segment.
+ */
+export function createVoiceActivityGate({ send, onSpeechStart, onSpeechEnd }: VoiceActivityHandlers): VoiceActivityGate {
+  let noiseFloor = MIN_SPEECH_RMS / NOISE_MULTIPLIER;
+  let isSpeaking = false;
+  let silentMs = 0;
+  const preRoll: string[] = [];
+
+  return {
+    process(chunk) {
+      const isLoud = chunk.rms > Math.max(MIN_SPEECH_RMS, noiseFloor * NOISE_MULTIPLIER);
+
+      if (!isSpeaking) {
+        if (isLoud) {
+          isSpeaking = true;
+          silentMs = 0;
+          onSpeechStart();
+          preRoll.splice(0).forEach(send);
+          send(chunk.pcm);
+          return;
+        }
+        noiseFloor += (chunk.rms - noiseFloor) * NOISE_SMOOTHING;
+        preRoll.push(chunk.pcm);
+        if (preRoll.length > PRE_ROLL_CHUNKS) preRoll.shift();
+        return;
+      }
+
+      send(chunk.pcm);
+      silentMs = isLoud ? 0 : silentMs + CHUNK_MS;
+      if (silentMs >= HANGOVER_MS) {
+        isSpeaking = false;
+        onSpeechEnd();
+      }
+    }
+  };
+}